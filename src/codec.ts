@@ -0,0 +1,167 @@
+/** Growable byte buffer writer.  Multi-byte numbers are written big-endian (network order). */
+export class ByteWriter {
+	private _bytes = new Uint8Array(256);
+	private _view = new DataView(this._bytes.buffer);
+	private _length = 0;
+
+	get length(): number { return this._length; }
+
+	uint8(value: number): void {
+		this.reserve(1);
+		this._view.setUint8(this._length++, value);
+	}
+
+	int16(value: number): void {
+		this.reserve(2);
+		this._view.setInt16(this._length, value);
+		this._length += 2;
+	}
+
+	int32(value: number): void {
+		this.reserve(4);
+		this._view.setInt32(this._length, value);
+		this._length += 4;
+	}
+
+	int64(value: number): void {
+		this.reserve(8);
+		this._view.setBigInt64(this._length, BigInt(value));
+		this._length += 8;
+	}
+
+	float32(value: number): void {
+		this.reserve(4);
+		this._view.setFloat32(this._length, value);
+		this._length += 4;
+	}
+
+	float64(value: number): void {
+		this.reserve(8);
+		this._view.setFloat64(this._length, value);
+		this._length += 8;
+	}
+
+	/** Writes a non-negative safe integer as an unsigned LEB128 varint */
+	varint(value: number): void {
+		if (!Number.isSafeInteger(value) || value < 0) {
+			throw new Error("Varint value must be a non-negative safe integer");
+		}
+		while (value >= 0x80) {
+			this.uint8((value % 0x80) | 0x80);
+			value = Math.floor(value / 0x80);
+		}
+		this.uint8(value);
+	}
+
+	bytes(bytes: Uint8Array): void {
+		this.reserve(bytes.length);
+		this._bytes.set(bytes, this._length);
+		this._length += bytes.length;
+	}
+
+	/** @returns A copy of the bytes written so far */
+	toBytes(): Uint8Array {
+		return this._bytes.slice(0, this._length);
+	}
+
+	private reserve(count: number) {
+		if (this._length + count > this._bytes.length) {
+			const grown = new Uint8Array(Math.max(this._bytes.length * 2, this._length + count));
+			grown.set(this._bytes.subarray(0, this._length));
+			this._bytes = grown;
+			this._view = new DataView(grown.buffer);
+		}
+	}
+}
+
+/** Sequential reader over a byte buffer.  Multi-byte numbers are read big-endian (network order). */
+export class ByteReader {
+	private _view: DataView;
+	private _offset = 0;
+
+	constructor(private _bytes: Uint8Array) {
+		this._view = new DataView(_bytes.buffer, _bytes.byteOffset, _bytes.byteLength);
+	}
+
+	get offset(): number { return this._offset; }
+
+	get remaining(): number { return this._bytes.length - this._offset; }
+
+	uint8(): number {
+		this.need(1);
+		return this._view.getUint8(this._offset++);
+	}
+
+	int16(): number {
+		this.need(2);
+		const value = this._view.getInt16(this._offset);
+		this._offset += 2;
+		return value;
+	}
+
+	int32(): number {
+		this.need(4);
+		const value = this._view.getInt32(this._offset);
+		this._offset += 4;
+		return value;
+	}
+
+	/** @throws {Error} If the value is beyond the safe integer range */
+	int64(): number {
+		this.need(8);
+		const value = this._view.getBigInt64(this._offset);
+		this._offset += 8;
+		if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+			throw new Error("64-bit value exceeds the safe integer range");
+		}
+		return Number(value);
+	}
+
+	float32(): number {
+		this.need(4);
+		const value = this._view.getFloat32(this._offset);
+		this._offset += 4;
+		return value;
+	}
+
+	float64(): number {
+		this.need(8);
+		const value = this._view.getFloat64(this._offset);
+		this._offset += 8;
+		return value;
+	}
+
+	/** Reads an unsigned LEB128 varint
+	 * @throws {Error} If the value is beyond the safe integer range
+	 */
+	varint(): number {
+		let value = 0;
+		let scale = 1;
+		for (;;) {
+			const byte = this.uint8();
+			value += (byte & 0x7f) * scale;
+			if (!(byte & 0x80)) break;
+			scale *= 0x80;
+			if (scale > Number.MAX_SAFE_INTEGER) {
+				throw new Error("Varint exceeds the safe integer range");
+			}
+		}
+		if (value > Number.MAX_SAFE_INTEGER) {
+			throw new Error("Varint exceeds the safe integer range");
+		}
+		return value;
+	}
+
+	bytes(count: number): Uint8Array {
+		this.need(count);
+		const bytes = this._bytes.subarray(this._offset, this._offset + count);
+		this._offset += count;
+		return bytes;
+	}
+
+	private need(count: number) {
+		if (this._offset + count > this._bytes.length) {
+			throw new Error("Unexpected end of data");
+		}
+	}
+}
@@ -0,0 +1,127 @@
+import { expect } from 'chai';
+import { Sparstogram, Centroid } from './sparstogram.js';
+import { CompressionPolicy, curvatureAwarePolicy, pairLoss, scaleFunctionPolicy } from './compression.js';
+
+/** Uniform resolution: merge the closest pair, at its mean */
+const uniformPolicy: CompressionPolicy = {
+	score: (_l, a, b) => b.value - a.value,
+	place: (a, b) => (a.value * a.count + b.value * b.count) / (a.count + b.count),
+};
+
+describe('Compression policies', () => {
+	function fill(s: Sparstogram, n = 2000) {
+		for (let i = 0; i < n; i++) s.add(Math.round(Math.exp(Math.sin(i * 0.7) * 3) * 100) / 100);
+		return s;
+	}
+	const valuesOf = (s: Sparstogram) => [...s.ascending()].map(c => c.value);
+
+	it('defaults to the curvature-aware policy', () => {
+		const implicit = fill(new Sparstogram(30));
+		const explicit = fill(new Sparstogram(30, undefined, { policy: curvatureAwarePolicy }));
+		expect(implicit.policy).to.equal(curvatureAwarePolicy);
+		expect([...explicit.ascending()]).to.deep.equal([...implicit.ascending()]);
+	});
+
+	it('places the default merge at the weighted median, and scores by pair loss', () => {
+		const a: Centroid = { value: 1, variance: 0, count: 3 };
+		const b: Centroid = { value: 2, variance: 0, count: 1 };
+		expect(curvatureAwarePolicy.place(a, b)).to.equal(1);
+		expect(curvatureAwarePolicy.place(b, { value: 3, variance: 0, count: 2 })).to.equal(3);
+		expect(pairLoss(a, b)).to.be.closeTo(4 + 0.25, 1e-12);	// weighted distance, plus combined variance 0.75 / 3
+		expect(curvatureAwarePolicy.score(undefined, a, b, undefined)).to.be.greaterThan(0);
+	});
+
+	it('merges the lowest-scored pair where the policy places it', () => {
+		const s = new Sparstogram(4, undefined, { policy: uniformPolicy });
+		[0, 1, 10, 11.5, 30].forEach(v => s.add(v));
+		expect(valuesOf(s)).to.deep.equal([0.5, 10, 11.5, 30]);
+		s.add(31);
+		expect(valuesOf(s)).to.deep.equal([0.5, 10, 11.5, 30.5]);
+		expect(s.count).to.equal(6);
+	});
+
+	it('keeps the loss index consistent through adds, removes and resizing', () => {
+		const s = new Sparstogram(20, [0.5], { policy: uniformPolicy });
+		const added: number[] = [];
+		for (let i = 0; i < 3000; i++) {
+			const value = Math.round(Math.sin(i * 1.3) * 1000);
+			s.add(value);
+			added.push(value);
+			if (i % 7 === 6) s.remove(added[i - 3]);
+		}
+		s.maxCentroids = 5;
+		const centroids = [...s.ascending()];
+		expect(centroids).to.have.lengthOf(5);
+		expect(centroids.reduce((sum, c) => sum + c.count, 0)).to.be.closeTo(s.count, 1e-9);
+		s.maxCentroids = 1;
+		expect([...s.ascending()]).to.have.lengthOf(1);
+	});
+
+	it('rejects NaN scores and placements outside the pair', () => {
+		const nanScore = new Sparstogram(2, undefined, { policy: { ...uniformPolicy, score: () => NaN } });
+		nanScore.add(1);
+		expect(() => nanScore.add(2)).to.throw(/score/);
+
+		const outside = new Sparstogram(2, undefined, { policy: { ...uniformPolicy, place: (_a, b) => b.value + 1 } });
+		[1, 2].forEach(v => outside.add(v));
+		expect(() => outside.add(3)).to.throw(/place/);
+	});
+
+	it('restores snapshots with the given policy', () => {
+		const s = fill(new Sparstogram(50, undefined, { policy: uniformPolicy }), 500);
+		const fromJSON = Sparstogram.fromJSON(s.toJSON(), { policy: uniformPolicy });
+		const deserialized = Sparstogram.deserialize(s.serialize(), { policy: uniformPolicy });
+		expect(fromJSON.policy).to.equal(uniformPolicy);
+		expect(deserialized.policy).to.equal(uniformPolicy);
+		fill(s, 300);
+		fill(fromJSON, 300);
+		expect(valuesOf(fromJSON)).to.deep.equal(valuesOf(s));
+		expect(Sparstogram.fromJSON(s.toJSON()).policy).to.equal(curvatureAwarePolicy);
+	});
+});
+
+describe('Scale function policies', () => {
+	function skewed() {
+		let seed = 7;
+		const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+		return Array.from({ length: 20000 }, () => Math.round(Math.exp(random() * 2 + random() * 2 + random() * 2) * 100) / 100);
+	}
+
+	it('scores a pair by the span of its quantiles on the scale function', () => {
+		const a: Centroid = { value: 1, variance: 0, count: 10 };
+		const b: Centroid = { value: 2, variance: 0, count: 40 };
+		const k1 = scaleFunctionPolicy('k1');
+		expect(k1.positional).to.equal(true);
+		expect(k1.score(undefined, a, b, undefined, { before: 0, total: 100 })).to.be.closeTo(0.5, 1e-12);	// asin(-1..0) / π
+		expect(scaleFunctionPolicy('k2').score(undefined, a, b, undefined, { before: 25, total: 100 })).to.be.closeTo(Math.log(3) - Math.log(1 / 3), 1e-12);
+		expect(scaleFunctionPolicy('k3').score(undefined, a, b, undefined, { before: 0, total: 100 })).to.equal(Infinity);
+		expect(k1.place(a, b)).to.equal(1.8);
+		expect(() => scaleFunctionPolicy('k4' as any)).to.throw();
+	});
+
+	it('keeps the tail centroids small under a tight budget', () => {
+		const data = skewed();
+		const sorted = [...data].sort((a, b) => a - b);
+		for (const scale of ['k2', 'k3'] as const) {
+			const s = new Sparstogram(50, undefined, { policy: scaleFunctionPolicy(scale) });
+			data.forEach(v => s.add(v));
+			const centroids = [...s.ascending()];
+			expect(centroids).to.have.lengthOf(50);
+			expect(centroids[0].count).to.be.at.most(2);
+			expect(centroids[centroids.length - 1].count).to.be.at.most(2);
+			for (const q of [0.99, 0.999]) {
+				const exact = sorted[Math.round(q * (sorted.length - 1))];
+				expect(Math.abs(s.quantileAt(q).value - exact) / exact, `${scale} p${q * 100}`).to.be.lessThan(0.02);
+			}
+		}
+	});
+
+	it('scores restored snapshots by position', () => {
+		const s = new Sparstogram(40, undefined, { policy: scaleFunctionPolicy() });
+		skewed().slice(0, 3000).forEach(v => s.add(v));
+		const restored = Sparstogram.fromJSON({ ...s.toJSON(), maxCentroids: 20 }, { policy: scaleFunctionPolicy() });
+		const centroids = [...restored.ascending()];
+		expect(centroids).to.have.lengthOf(20);
+		expect(centroids[0].count).to.be.at.most(2);
+	});
+});
@@ -0,0 +1,121 @@
+import type { Centroid } from "./sparstogram.js";
+
+/** Decides which adjacent pair of centroids a histogram merges next, and where the merged centroid is placed.
+ * Scores are cached in the histogram's loss index and recomputed as pairs change, so a score should depend only on its arguments.
+ */
+export interface CompressionPolicy {
+	/** Merge priority of the adjacent pair (a, b), given the centroids either side of the pair (l before a, r after b) if there are any.
+	 * The pair with the lowest score is merged first.
+	 * @param position The pair's position in the histogram, given only if the policy is {@link positional}
+	 * @returns A number (not NaN); Infinity defers merging the pair until no finite score remains
+	 */
+	score(l: Centroid | undefined, a: Centroid, b: Centroid, r: Centroid | undefined, position?: PairPosition): number;
+	/** Value at which the centroid merged from the pair (a, b) is placed
+	 * @returns A value from a.value to b.value (inclusive), so the centroids stay in order
+	 */
+	place(a: Centroid, b: Centroid): number;
+	/** If true, each score is given the pair's position, at the cost of a logarithmic lookup per score.
+	 * Positions are as of when the pair was scored; the pair isn't rescored as mass is added or removed elsewhere.
+	 */
+	positional?: boolean;
+}
+
+/** Where a pair being scored sits in the histogram */
+export interface PairPosition {
+	/** Total count of the centroids before the pair */
+	before: number;
+	/** Total count of the histogram */
+	total: number;
+}
+
+/** t-digest style scale functions, mapping a quantile to a scale on which centroids should have similar sizes.
+ * Each is steeper toward the tails, so centroids there hold less mass:
+ * - k1: asin(2q - 1) / π, finite at the extremes
+ * - k2: ln(q / (1 - q)), unbounded at both extremes, so the first and last centroids are merged last
+ * - k3: ln(2q) for q <= 0.5, and -ln(2(1 - q)) above, unbounded like k2 but flatter in the middle
+ */
+export type ScaleFunction = "k1" | "k2" | "k3";
+
+/** The default policy, which preserves bends in the distribution (peaks, valleys and tails).
+ * A pair's score is its {@link pairLoss} scaled by the local CDF curvature at the seam, estimated from the change in density
+ * (count per value distance) between the pair and each outer neighbor:
+ *   score = pairLoss * (eps + 0.5 * (|dens(l, a) - dens(a, b)| + |dens(a, b) - dens(b, r)|))
+ * where a missing neighbor contributes dens(a, b).  The merged centroid is placed at the weighted median of the pair:
+ * the value of the centroid with the greater count (the prior on a tie).
+ */
+export const curvatureAwarePolicy: CompressionPolicy = Object.freeze({
+	score(l: Centroid | undefined, a: Centroid, b: Centroid, r: Centroid | undefined): number {
+		const dens = (u: Centroid, v: Centroid) => (u.count + v.count) / (Math.abs(v.value - u.value) + DENSITY_EPSILON);
+		const left = l ? Math.abs(dens(l, a) - dens(a, b)) : dens(a, b);
+		const right = r ? Math.abs(dens(a, b) - dens(b, r)) : dens(a, b);
+		return pairLoss(a, b) * (SCORE_EPSILON + 0.5 * (left + right));
+	},
+	place(a: Centroid, b: Centroid): number {
+		return a.count >= b.count ? a.value : b.value;
+	},
+});
+
+/** A tail-preserving policy modeled on t-digest's scale functions (T. Dunning and O. Ertl, "Computing Extremely Accurate Quantiles Using t-Digests", 2019).
+ * A pair's score is the span, on the scale function, of the quantiles the merged centroid would cover, so the pair that would
+ * make the smallest centroid on that scale is merged first.  Centroids are thereby capped to similar sizes on the scale, which
+ * limits the mass near q = 0 and q = 1 however tight maxCentroids is.  Merged centroids are placed at the weighted mean of the pair.
+ * @param scale The scale function (default "k2")
+ * @throws {Error} If the scale function is not one of "k1", "k2" or "k3"
+ */
+export function scaleFunctionPolicy(scale: ScaleFunction = "k2"): CompressionPolicy {
+	const k = SCALE_FUNCTIONS[scale];
+	if (!k) {
+		throw new Error("Scale function must be one of k1, k2 or k3");
+	}
+	return Object.freeze({
+		positional: true,
+		score(_l: Centroid | undefined, a: Centroid, b: Centroid, _r: Centroid | undefined, position?: PairPosition): number {
+			const { before, total } = position!;
+			return k(Math.min(1, (before + a.count + b.count) / total)) - k(before / total);
+		},
+		place(a: Centroid, b: Centroid): number {
+			const mean = (a.value * a.count + b.value * b.count) / (a.count + b.count);
+			return Math.min(b.value, Math.max(a.value, mean));
+		},
+	});
+}
+
+/** Base loss of merging a pair of centroids: the count-weighted distance between them, plus the variance of the merged centroid (the two terms unweighted) */
+export function pairLoss(a: Centroid, b: Centroid): number {
+	return Math.abs(a.value - b.value) * (a.count + b.count) + combinedVariance(a, b);
+}
+
+/** Estimates combined variance if merged, considering the weighted mean */
+export function combinedVariance(a: Centroid, b: Centroid): number {
+	const nA = a.count;
+	const nB = b.count;
+	const totalN = nA + nB;
+
+	if (totalN <= 1) {
+		return 0; // Variance is undefined or 0 for a single point or no points
+	}
+
+	// Sum of squares for centroid A. Initial centroids (count=1) have variance=0, so ssA will be 0.
+	const ssA = nA > 0 ? a.variance * (nA > 1 ? nA - 1 : 0) : 0;
+	// Sum of squares for centroid B.
+	const ssB = nB > 0 ? b.variance * (nB > 1 ? nB - 1 : 0) : 0;
+
+	// This check avoids division by zero if totalN is 0, though nA, nB should be >= 1 from context of use.
+	const ssBetween = (nA === 0 || nB === 0 || totalN === 0)
+		? 0
+		: (nA * nB * Math.pow(a.value - b.value, 2)) / totalN;
+
+	const totalDF = totalN - 1;
+
+	// Avoid division by zero if totalDF is 0 (e.g. totalN=1 implies totalDF=0)
+	return totalDF > 0 ? (ssA + ssB + ssBetween) / totalDF : 0;
+}
+
+const SCALE_FUNCTIONS: Record<ScaleFunction, (q: number) => number> = {
+	k1: q => Math.asin(2 * q - 1) / Math.PI,
+	k2: q => Math.log(q / (1 - q)),
+	k3: q => q <= 0.5 ? Math.log(2 * q) : -Math.log(2 * (1 - q)),
+};
+
+const SCORE_EPSILON = 1e-9;
+const DENSITY_EPSILON = 1e-12;
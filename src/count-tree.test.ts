@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import { CountTree } from './count-tree.js';
+
+describe('CountTree', () => {
+	/** Reference implementation: sorted entries, linear scans */
+	function bruteBefore(entries: Map<number, number>, key: number) {
+		let sum = 0;
+		for (const [k, c] of entries) if (k < key) sum += c;
+		return sum;
+	}
+
+	function bruteSelect(entries: Map<number, number>, rank: number, exclusive: boolean) {
+		const sorted = [...entries].sort((a, b) => a[0] - b[0]);
+		let before = 0;
+		for (let i = 0; i < sorted.length; i++) {
+			const [key, count] = sorted[i];
+			if ((exclusive ? before + count > rank : before + count >= rank) || i === sorted.length - 1) {
+				return { key, count, before };
+			}
+			before += count;
+		}
+		return undefined;
+	}
+
+	it('is empty initially', () => {
+		const tree = new CountTree();
+		expect(tree.total).to.equal(0);
+		expect(tree.before(5)).to.equal(0);
+		expect(tree.select(1)).to.be.undefined;
+	});
+
+	it('answers before and select like a linear scan across splits and deletes', () => {
+		const tree = new CountTree();
+		const entries = new Map<number, number>();
+		let seed = 7;
+		const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+		for (let i = 0; i < 6000; i++) {
+			const key = Math.floor(random() * 3000);
+			if (random() < 0.3 && entries.size) {
+				tree.delete(key);
+				entries.delete(key);
+			} else {
+				const count = 1 + Math.floor(random() * 5);
+				tree.set(key, count);
+				entries.set(key, count);
+			}
+			if (i % 200 === 0) {
+				const total = [...entries.values()].reduce((a, b) => a + b, 0);
+				expect(tree.total).to.equal(total);
+				for (const probe of [-1, 0, 17.5, 1500, 2999, 5000]) {
+					expect(tree.before(probe)).to.equal(bruteBefore(entries, probe));
+				}
+				for (const rank of [1, total / 3, total / 2, total - 1, total, total + 10]) {
+					expect(tree.select(rank)).to.deep.equal(bruteSelect(entries, rank, false));
+					expect(tree.select(rank, true)).to.deep.equal(bruteSelect(entries, rank, true));
+				}
+			}
+		}
+	});
+
+	it('shrinks back to empty and can be reused', () => {
+		const tree = new CountTree();
+		for (let i = 0; i < 1000; i++) tree.set(i, 0.5);
+		expect(tree.total).to.equal(500);
+		expect(tree.select(250.25)).to.deep.equal({ key: 500, count: 0.5, before: 250 });
+		for (let i = 0; i < 1000; i++) tree.delete(i);
+		expect(tree.total).to.equal(0);
+		expect(tree.select(1)).to.be.undefined;
+		tree.set(3, 2);
+		expect(tree.select(1)).to.deep.equal({ key: 3, count: 2, before: 0 });
+	});
+});
@@ -0,0 +1,186 @@
+/** The result of a rank selection: the entry whose mass covers the rank, and the total mass before it */
+export interface CountSelection {
+	key: number;
+	count: number;
+	/** Sum of the counts of all entries with lesser keys */
+	before: number;
+}
+
+interface Leaf {
+	keys: number[];
+	counts: number[];
+}
+
+interface Branch {
+	children: Node[];
+	/** Total count of each child's subtree */
+	sums: number[];
+	/** partitions[i] is the least key in children[i + 1] */
+	partitions: number[];
+}
+
+type Node = Leaf | Branch;
+
+/** Order-statistic B+tree of counts keyed by number.
+ * Each branch keeps the total count of each child's subtree, so the count before a key and the key at a cumulative count
+ * are found in logarithmic time.  Subtree totals are recomputed (rather than adjusted) along each mutated path, so fractional counts don't drift.
+ * Emptied nodes are removed, but partly filled nodes are not rebalanced; depth is bounded by the largest size the tree has reached.
+ */
+export class CountTree {
+	private _root: Node = { keys: [], counts: [] };
+
+	/** Sum of all counts */
+	get total(): number {
+		return nodeTotal(this._root);
+	}
+
+	/** Inserts the key with the given count, or replaces the count of an existing key */
+	set(key: number, count: number): void {
+		const split = this.setIn(this._root, key, count);
+		if (split) {
+			this._root = { children: [this._root, split.node], sums: [nodeTotal(this._root), nodeTotal(split.node)], partitions: [split.key] };
+		}
+	}
+
+	/** Removes the key, if present */
+	delete(key: number): void {
+		if (this.deleteIn(this._root, key)) {
+			this._root = { keys: [], counts: [] };
+		}
+		while (isBranch(this._root) && this._root.children.length === 1) {
+			this._root = this._root.children[0];
+		}
+	}
+
+	/** @returns The sum of the counts of all keys less than the given key */
+	before(key: number): number {
+		let sum = 0;
+		let node = this._root;
+		while (isBranch(node)) {
+			const index = childIndex(node, key);
+			for (let i = 0; i < index; ++i) sum += node.sums[i];
+			node = node.children[index];
+		}
+		for (let i = 0; i < node.keys.length && node.keys[i] < key; ++i) sum += node.counts[i];
+		return sum;
+	}
+
+	/** Finds the first entry (in key order) at which the cumulative count reaches the given rank.
+	 * @param rank The cumulative count to reach
+	 * @param exclusive If true, the cumulative count must exceed the rank, rather than reach it
+	 * @returns The selected entry, the last entry if the rank is beyond the total, or undefined if empty
+	 */
+	select(rank: number, exclusive = false): CountSelection | undefined {
+		const reaches = (cumulative: number) => exclusive ? cumulative > rank : cumulative >= rank;
+		let before = 0;
+		let node = this._root;
+		while (isBranch(node)) {
+			let i = 0;
+			while (i < node.children.length - 1 && !reaches(before + node.sums[i])) {
+				before += node.sums[i++];
+			}
+			node = node.children[i];
+		}
+		if (!node.keys.length) return undefined;
+		let i = 0;
+		while (i < node.keys.length - 1 && !reaches(before + node.counts[i])) {
+			before += node.counts[i++];
+		}
+		return { key: node.keys[i], count: node.counts[i], before };
+	}
+
+	/** @returns The new sibling and its least key if the node split */
+	private setIn(node: Node, key: number, count: number): { node: Node, key: number } | undefined {
+		if (isBranch(node)) {
+			const index = childIndex(node, key);
+			const child = node.children[index];
+			const split = this.setIn(child, key, count);
+			node.sums[index] = nodeTotal(child);
+			if (split) {
+				node.children.splice(index + 1, 0, split.node);
+				node.sums.splice(index + 1, 0, nodeTotal(split.node));
+				node.partitions.splice(index, 0, split.key);
+				if (node.children.length > NODE_CAPACITY) {
+					const middle = node.children.length >>> 1;
+					const sibling: Branch = {
+						children: node.children.splice(middle),
+						sums: node.sums.splice(middle),
+						partitions: node.partitions.splice(middle),
+					};
+					return { node: sibling, key: node.partitions.pop()! };
+				}
+			}
+			return undefined;
+		}
+		const index = keyIndex(node.keys, key);
+		if (node.keys[index] === key) {
+			node.counts[index] = count;
+			return undefined;
+		}
+		node.keys.splice(index, 0, key);
+		node.counts.splice(index, 0, count);
+		if (node.keys.length > NODE_CAPACITY) {
+			const middle = node.keys.length >>> 1;
+			const sibling: Leaf = { keys: node.keys.splice(middle), counts: node.counts.splice(middle) };
+			return { node: sibling, key: sibling.keys[0] };
+		}
+		return undefined;
+	}
+
+	/** @returns True if the node is left empty */
+	private deleteIn(node: Node, key: number): boolean {
+		if (isBranch(node)) {
+			const index = childIndex(node, key);
+			const child = node.children[index];
+			if (this.deleteIn(child, key)) {
+				node.children.splice(index, 1);
+				node.sums.splice(index, 1);
+				// Drop the partition bounding the removed child (the one before it, unless it was first)
+				node.partitions.splice(Math.max(0, index - 1), 1);
+				return node.children.length === 0;
+			}
+			node.sums[index] = nodeTotal(child);
+			return false;
+		}
+		const index = keyIndex(node.keys, key);
+		if (node.keys[index] === key) {
+			node.keys.splice(index, 1);
+			node.counts.splice(index, 1);
+		}
+		return node.keys.length === 0;
+	}
+}
+
+function isBranch(node: Node): node is Branch {
+	return "children" in node;
+}
+
+function nodeTotal(node: Node): number {
+	let sum = 0;
+	for (const count of isBranch(node) ? node.sums : node.counts) sum += count;
+	return sum;
+}
+
+/** Index of the child whose key range contains the key */
+function childIndex(branch: Branch, key: number): number {
+	let low = 0;
+	let high = branch.partitions.length;
+	while (low < high) {
+		const middle = (low + high) >>> 1;
+		if (branch.partitions[middle] <= key) low = middle + 1; else high = middle;
+	}
+	return low;
+}
+
+/** Index of the key, or where it would be inserted */
+function keyIndex(keys: number[], key: number): number {
+	let low = 0;
+	let high = keys.length;
+	while (low < high) {
+		const middle = (low + high) >>> 1;
+		if (keys[middle] < key) low = middle + 1; else high = middle;
+	}
+	return low;
+}
+
+const NODE_CAPACITY = 64;
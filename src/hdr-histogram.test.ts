@@ -0,0 +1,123 @@
+import { expect } from 'chai';
+import { deflateSync, inflateSync } from 'node:zlib';
+import { Sparstogram } from './sparstogram.js';
+import { fromHdrHistogram, hdrHistogramCentroids, toHdrHistogram } from './hdr-histogram.js';
+
+// Builds a plain V2 encoding from raw zig-zag LEB128 payload bytes
+function v2Encoding(digits: number, lowest: number, highest: number, payload: number[], ratio = 1) {
+	const bytes = new Uint8Array(40 + payload.length);
+	const view = new DataView(bytes.buffer);
+	view.setInt32(0, 0x1c849313);
+	view.setInt32(4, payload.length);
+	view.setInt32(8, 0);
+	view.setInt32(12, digits);
+	view.setBigInt64(16, BigInt(lowest));
+	view.setBigInt64(24, BigInt(highest));
+	view.setFloat64(32, ratio);
+	bytes.set(payload, 40);
+	return bytes;
+}
+
+function compressed(encoding: Uint8Array) {
+	const deflated = deflateSync(encoding);
+	const bytes = new Uint8Array(8 + deflated.length);
+	const view = new DataView(bytes.buffer);
+	view.setInt32(0, 0x1c849314);
+	view.setInt32(4, deflated.length);
+	bytes.set(deflated, 8);
+	return bytes;
+}
+
+describe('HdrHistogram interop', () => {
+	describe('import', () => {
+		// 3 digits: indexes 0-2047 hold single values; index 3298 is the bucket [5000, 5004)
+		// payload: count 2 at index 0, 9 zeros, count 1 at index 10, 3287 zeros, count 3 at index 3298
+		const payload = [4, 17, 2, 0xad, 0x33, 6];
+
+		it('decodes a plain V2 encoding', () => {
+			expect(hdrHistogramCentroids(v2Encoding(3, 1, 3600000, payload))).to.deep.equal([
+				{ value: 0, variance: 0, count: 2 },
+				{ value: 10, variance: 0, count: 1 },
+				{ value: 5001.5, variance: 15 / 12, count: 3 },
+			]);
+		});
+
+		it('decodes a compressed V2 encoding into a histogram', () => {
+			const h = fromHdrHistogram(compressed(v2Encoding(3, 1, 3600000, payload)), { markers: [0.4] });
+			expect(h.count).to.equal(6);
+			expect(h.centroidCount).to.equal(3);
+			expect(h.markerAt(0).centroid.value).to.equal(10);
+		});
+
+		it('applies the conversion ratio and maxCentroids', () => {
+			const h = fromHdrHistogram(v2Encoding(3, 1, 3600000, payload, 0.001), { maxCentroids: 2 });
+			expect(h.centroidCount).to.equal(2);
+			expect([...h.ascending()].pop()!.value).to.be.closeTo(5.0015, 1e-9);
+		});
+
+		it('rejects foreign and malformed payloads', () => {
+			const foreign = v2Encoding(3, 1, 3600000, payload);
+			new DataView(foreign.buffer).setInt32(0, 0x1c849301);
+			expect(() => hdrHistogramCentroids(foreign)).to.throw(/V2/);
+			expect(() => hdrHistogramCentroids(v2Encoding(3, 1, 3600000, payload).subarray(0, 42))).to.throw(/end of data/);
+			expect(() => hdrHistogramCentroids(v2Encoding(7, 1, 3600000, payload))).to.throw(/digits/);
+			// 3 digits, highest 2048: 2 buckets, 3072 counts, so index 3298 is out of range
+			expect(() => hdrHistogramCentroids(v2Encoding(3, 1, 2048, payload))).to.throw(/counts array/);
+		});
+	});
+
+	describe('export', () => {
+		it('encodes the layout expected by the reference implementation', () => {
+			const h = new Sparstogram(10);
+			h.append({ value: 0, variance: 0, count: 2 }, { value: 10, variance: 0, count: 1 }, { value: 5002, variance: 0, count: 3 });
+			const bytes = toHdrHistogram(h, { compressed: false, highestTrackableValue: 3600000 });
+			expect([...bytes]).to.deep.equal([...v2Encoding(3, 1, 3600000, [4, 17, 2, 0xad, 0x33, 6])]);
+		});
+
+		it('round-trips through the compressed encoding', () => {
+			const h = new Sparstogram(1000);
+			for (let i = 0; i < 2000; i++) h.add(Math.round(Math.exp(Math.sin(i) * 8)));
+			const bytes = toHdrHistogram(h, { significantDigits: 2 });
+			expect(new DataView(bytes.buffer).getInt32(0)).to.equal(0x1c849314);
+			const back = fromHdrHistogram(bytes);
+			expect(back.count).to.equal(2000);
+			for (const q of [0.1, 0.5, 0.9, 0.99]) {
+				const expected = h.quantileAt(q).value;
+				expect(back.quantileAt(q).value).to.be.closeTo(expected, Math.max(1, expected * 0.01));
+			}
+		});
+
+		it('honors lowestDiscernibleValue', () => {
+			const h = new Sparstogram(10);
+			h.add(1000);
+			const [centroid] = hdrHistogramCentroids(toHdrHistogram(h, { lowestDiscernibleValue: 1024, significantDigits: 1 }));
+			expect(centroid.count).to.equal(1);
+			expect(Math.abs(centroid.value - 1000)).to.be.lessThan(1024);
+		});
+
+		it('scales sub-unit values by the conversion ratio, and round-trips them', () => {
+			const h = new Sparstogram(1000);
+			for (let i = 0; i < 1000; i++) h.add(0.001 + (i % 250) * 0.0004);	// seconds, 1ms to 100ms
+			const bytes = toHdrHistogram(h, { conversionRatio: 0.000001 });
+			expect(new DataView(inflateSync(bytes.subarray(8)).buffer).getFloat64(32)).to.equal(0.000001);
+			const back = fromHdrHistogram(bytes);
+			expect(back.count).to.equal(1000);
+			expect(back.centroidCount).to.be.greaterThan(100);
+			for (const q of [0.1, 0.5, 0.9, 0.99]) {
+				const expected = h.quantileAt(q).value;
+				expect(back.quantileAt(q).value).to.be.closeTo(expected, expected * 0.002);
+			}
+			expect(() => toHdrHistogram(h, { conversionRatio: 0 })).to.throw(/Conversion ratio/);
+			expect(() => toHdrHistogram(h, { conversionRatio: 0.000001, highestTrackableValue: 50_000 })).to.throw(/\(50200 units\) is outside the trackable range 0-50000/);
+		});
+
+		it('rejects values outside the trackable range', () => {
+			const h = new Sparstogram(10);
+			h.add(-1);
+			expect(() => toHdrHistogram(h)).to.throw(/trackable range/);
+			const big = new Sparstogram(10);
+			big.add(500);
+			expect(() => toHdrHistogram(big, { highestTrackableValue: 100 })).to.throw(/trackable range/);
+		});
+	});
+});
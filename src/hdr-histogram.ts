@@ -0,0 +1,250 @@
+import { deflateSync, inflateSync } from "node:zlib";
+import { Centroid, Sparstogram } from "./sparstogram.js";
+import { ByteReader, ByteWriter } from "./codec.js";
+
+/** Options for importing an HdrHistogram */
+export interface HdrImportOptions {
+	/** The maximum number of centroids of the resulting histogram (defaults to the number of recorded buckets, so the import is lossless) */
+	maxCentroids?: number;
+	/** Optional quantile markers for the resulting histogram (see the {@link Sparstogram} constructor) */
+	markers?: number[];
+}
+
+/** Options for exporting a histogram as an HdrHistogram */
+export interface HdrExportOptions {
+	/** The number of significant value digits (0-5, default 3) */
+	significantDigits?: number;
+	/** The value of one integer unit, written as the encoding's integer-to-double conversion ratio (default 1).
+	 * Values are divided by it before bucketing, e.g. 0.000001 to record values in seconds as integer microseconds.
+	 */
+	conversionRatio?: number;
+	/** The lowest discernible value, in integer units (default 1) */
+	lowestDiscernibleValue?: number;
+	/** The highest trackable value, in integer units (defaults to the largest centroid value, but at least twice lowestDiscernibleValue) */
+	highestTrackableValue?: number;
+	/** Whether to produce the zlib-compressed encoding (default true) or the plain V2 encoding */
+	compressed?: boolean;
+}
+
+/** Decodes an HdrHistogram V2 encoding (compressed or plain, as produced by encodeIntoCompressedByteBuffer or encodeIntoByteBuffer) into a histogram.
+ * Each recorded bucket becomes a centroid at the middle of the bucket's range of equivalent values,
+ * with the variance of a uniform spread over that range.  Values are scaled by the encoding's integer-to-double conversion ratio.
+ * @throws {Error} If the payload is not a V2 HdrHistogram encoding, or is truncated or malformed
+ */
+export function fromHdrHistogram(bytes: Uint8Array, options: HdrImportOptions = {}): Sparstogram {
+	const centroids = hdrHistogramCentroids(bytes);
+	const histogram = new Sparstogram(Math.max(1, centroids.length), options.markers);
+	for (const centroid of centroids) {
+		histogram.append(centroid);
+	}
+	if (options.maxCentroids !== undefined) {
+		histogram.maxCentroids = options.maxCentroids;
+	}
+	return histogram;
+}
+
+/** Encodes a histogram as an HdrHistogram V2 encoding, readable by HdrHistogram's decodeFromCompressedByteBuffer (or decodeFromByteBuffer if not compressed).
+ * Each centroid's count is recorded at its value, scaled by the conversion ratio and rounded to the nearest integer unit.
+ * @throws {Error} If a centroid value is negative or beyond the highest trackable value, or if the options are out of range
+ */
+export function toHdrHistogram(histogram: Sparstogram, options: HdrExportOptions = {}): Uint8Array {
+	const centroids = [...histogram.ascending()];
+	const ratio = options.conversionRatio ?? 1;
+	if (!(Number.isFinite(ratio) && ratio > 0)) {
+		throw new Error("Conversion ratio must be a positive finite number");
+	}
+	const lowest = options.lowestDiscernibleValue ?? 1;
+	const highest = options.highestTrackableValue
+		?? Math.max(2 * lowest, centroids.length ? Math.round(centroids[centroids.length - 1].value / ratio) : 0);
+	const layout = new HdrLayout(lowest, highest, options.significantDigits ?? 3);
+
+	const counts = new Map<number, number>();
+	let limit = 0;
+	for (const centroid of centroids) {
+		const value = Math.round(centroid.value / ratio);
+		if (value < 0 || value > highest) {
+			throw new Error(`Value ${centroid.value} (${value} units) is outside the trackable range 0-${highest}`);
+		}
+		const index = layout.indexOf(value);
+		counts.set(index, (counts.get(index) ?? 0) + Math.round(centroid.count));
+		limit = Math.max(limit, index + 1);
+	}
+
+	// Counts are zig-zag LEB128 encoded, with runs of zeros encoded as a negative run length
+	const payload = new ByteWriter();
+	for (let index = 0; index < limit;) {
+		const count = counts.get(index) ?? 0;
+		let run = 1;
+		if (count === 0) {
+			while (index + run < limit && !counts.get(index + run)) ++run;
+		}
+		writeZigZag(payload, run > 1 ? -run : count);
+		index += run;
+	}
+
+	const writer = new ByteWriter();
+	writer.int32(V2_ENCODING_COOKIE);
+	writer.int32(payload.length);
+	writer.int32(0);	// normalizing index offset
+	writer.int32(layout.digits);
+	writer.int64(layout.lowest);
+	writer.int64(layout.highest);
+	writer.float64(ratio);	// integer to double value conversion ratio
+	writer.bytes(payload.toBytes());
+	if (options.compressed === false) {
+		return writer.toBytes();
+	}
+
+	const deflated = deflateSync(writer.toBytes());
+	const compressed = new ByteWriter();
+	compressed.int32(V2_COMPRESSED_ENCODING_COOKIE);
+	compressed.int32(deflated.length);
+	compressed.bytes(deflated);
+	return compressed.toBytes();
+}
+
+/** Decodes an HdrHistogram V2 encoding (compressed or plain) into centroids, one per recorded bucket, in ascending value order */
+export function hdrHistogramCentroids(bytes: Uint8Array): Centroid[] {
+	let reader = new ByteReader(bytes);
+	let cookie = reader.int32();
+	if (cookieBase(cookie) === V2_COMPRESSED_ENCODING_COOKIE_BASE) {
+		const length = reader.int32();
+		reader = new ByteReader(new Uint8Array(inflateSync(reader.bytes(length))));
+		cookie = reader.int32();
+	}
+	if (cookieBase(cookie) !== V2_ENCODING_COOKIE_BASE) {
+		throw new Error("Not an HdrHistogram V2 encoding");
+	}
+	const payloadLength = reader.int32();
+	if (reader.int32() !== 0) {
+		throw new Error("HdrHistogram encodings with a normalizing index offset are not supported");
+	}
+	const digits = reader.int32();
+	const lowest = reader.int64();
+	const highest = reader.int64();
+	const ratio = reader.float64();
+	const layout = new HdrLayout(lowest, highest, digits);
+	const payload = new ByteReader(reader.bytes(payloadLength));
+
+	const centroids: Centroid[] = [];
+	for (let index = 0; payload.remaining;) {
+		const count = readZigZag(payload);
+		if (count < 0) {
+			index -= count;	// run of zeros
+			continue;
+		}
+		if (index >= layout.countsLength) {
+			throw new Error("HdrHistogram payload exceeds its counts array");
+		}
+		if (count > 0) {
+			const lowestEquivalent = layout.valueFromIndex(index);
+			const width = layout.widthAtIndex(index);
+			centroids.push({
+				value: (lowestEquivalent + (width - 1) / 2) * ratio,
+				variance: count > 1 ? (width * width - 1) / 12 * ratio * ratio : 0,
+				count,
+			});
+		}
+		++index;
+	}
+	return centroids;
+}
+
+/** The bucket layout of an HdrHistogram, mirroring the reference implementation's index arithmetic.
+ * Values are bucketed by powers of two, each bucket split into sub-buckets giving the requested significant digits.
+ */
+class HdrLayout {
+	readonly unitMagnitude: number;
+	readonly subBucketHalfCountMagnitude: number;
+	readonly subBucketCount: number;
+	readonly subBucketHalfCount: number;
+	readonly countsLength: number;
+
+	constructor(readonly lowest: number, readonly highest: number, readonly digits: number) {
+		if (!Number.isInteger(digits) || digits < 0 || digits > 5) {
+			throw new Error("Significant digits must be an integer from 0 to 5");
+		}
+		if (!Number.isSafeInteger(lowest) || lowest < 1) {
+			throw new Error("Lowest discernible value must be an integer of at least 1");
+		}
+		if (!Number.isSafeInteger(highest) || highest < 2 * lowest) {
+			throw new Error("Highest trackable value must be an integer of at least twice the lowest discernible value");
+		}
+		this.unitMagnitude = highestBit(lowest);
+		const subBucketCountMagnitude = Math.ceil(Math.log2(2 * 10 ** digits));
+		this.subBucketHalfCountMagnitude = Math.max(subBucketCountMagnitude, 1) - 1;
+		this.subBucketCount = 2 ** (this.subBucketHalfCountMagnitude + 1);
+		this.subBucketHalfCount = this.subBucketCount / 2;
+		let bucketCount = 1;
+		for (let smallestUntrackable = this.subBucketCount * 2 ** this.unitMagnitude; smallestUntrackable <= highest; smallestUntrackable *= 2) {
+			++bucketCount;
+		}
+		this.countsLength = (bucketCount + 1) * this.subBucketHalfCount;
+	}
+
+	indexOf(value: number): number {
+		const bucketIndex = value > 0 ? Math.max(0, highestBit(value) - this.unitMagnitude - this.subBucketHalfCountMagnitude) : 0;
+		const subBucketIndex = Math.floor(value / 2 ** (bucketIndex + this.unitMagnitude));
+		return (bucketIndex + 1) * this.subBucketHalfCount + subBucketIndex - this.subBucketHalfCount;
+	}
+
+	/** The lowest value equivalent to (sharing a bucket with) values at the given index */
+	valueFromIndex(index: number): number {
+		const [bucketIndex, subBucketIndex] = this.split(index);
+		return subBucketIndex * 2 ** (bucketIndex + this.unitMagnitude);
+	}
+
+	/** The number of integer values equivalent to (sharing a bucket with) values at the given index */
+	widthAtIndex(index: number): number {
+		return 2 ** (this.split(index)[0] + this.unitMagnitude);
+	}
+
+	private split(index: number): [bucketIndex: number, subBucketIndex: number] {
+		const bucketIndex = Math.floor(index / this.subBucketHalfCount) - 1;
+		const subBucketIndex = index % this.subBucketHalfCount + this.subBucketHalfCount;
+		return bucketIndex < 0 ? [0, subBucketIndex - this.subBucketHalfCount] : [bucketIndex, subBucketIndex];
+	}
+}
+
+/** Index of the highest set bit of a positive integer */
+function highestBit(value: number): number {
+	let bit = Math.floor(Math.log2(value));
+	if (2 ** bit > value) --bit;
+	else if (2 ** (bit + 1) <= value) ++bit;
+	return bit;
+}
+
+function cookieBase(cookie: number): number {
+	return cookie & ~0xf0;	// the second nibble encodes the word size
+}
+
+/** Writes a zig-zag encoded LEB128 value (HdrHistogram's ZigZagEncoding) */
+function writeZigZag(writer: ByteWriter, value: number) {
+	writer.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+}
+
+/** Reads a zig-zag encoded LEB128 value of up to 9 bytes, the 9th holding a full 8 bits (HdrHistogram's ZigZagEncoding) */
+function readZigZag(reader: ByteReader): number {
+	let zigZag = 0;
+	let scale = 1;
+	for (let i = 0; ; ++i) {
+		const byte = reader.uint8();
+		if (i === 8) {
+			zigZag += byte * scale;
+			break;
+		}
+		zigZag += (byte & 0x7f) * scale;
+		if (!(byte & 0x80)) break;
+		scale *= 0x80;
+	}
+	if (zigZag > Number.MAX_SAFE_INTEGER) {
+		throw new Error("HdrHistogram count exceeds the safe integer range");
+	}
+	return zigZag % 2 === 0 ? zigZag / 2 : -(zigZag + 1) / 2;
+}
+
+// HdrHistogram V2 encoding cookies, with the word size nibble (0x10) set as written by the reference implementation
+const V2_ENCODING_COOKIE_BASE = 0x1c849303;
+const V2_COMPRESSED_ENCODING_COOKIE_BASE = 0x1c849304;
+const V2_ENCODING_COOKIE = V2_ENCODING_COOKIE_BASE | 0x10;
+const V2_COMPRESSED_ENCODING_COOKIE = V2_COMPRESSED_ENCODING_COOKIE_BASE | 0x10;
@@ -1 +1,9 @@
 export * from "./sparstogram.js";
+export * from "./compression.js";
+export * from "./memory.js";
+export * from "./windowed.js";
+export * from "./rolling.js";
+export * from "./rollup.js";
+export * from "./tdigest.js";
+export * from "./prometheus.js";
+export * from "./otel.js";
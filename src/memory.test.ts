@@ -0,0 +1,84 @@
+import { expect } from 'chai';
+import { Sparstogram } from './sparstogram.js';
+import { MemoryPool, centroidsForBudget, estimateBytes } from './memory.js';
+
+describe('Memory budgets', () => {
+	const fill = (s: Sparstogram, n: number, offset = 0) => {
+		for (let i = 0; i < n; i++) s.add(offset + i * 1.5);
+	};
+
+	it('converts between bytes and centroids', () => {
+		expect(estimateBytes(100)).to.be.greaterThan(estimateBytes(10));
+		expect(centroidsForBudget(estimateBytes(100))).to.equal(100);
+		expect(centroidsForBudget(estimateBytes(100) - 1)).to.equal(99);
+		expect(() => centroidsForBudget(estimateBytes(1) - 1)).to.throw(/at least one centroid/);
+		expect(() => new MemoryPool(100)).to.throw();
+	});
+
+	it('limits a histogram to the centroids its budget allows', () => {
+		const budget = estimateBytes(50);
+		const s = new Sparstogram(1000, undefined, { memoryBudget: budget });
+		expect(s.maxCentroids).to.equal(50);
+		fill(s, 500);
+		expect(s.centroidCount).to.equal(50);
+		expect(s.estimatedBytes).to.be.at.most(budget);
+		expect(new Sparstogram(10, undefined, { memoryBudget: budget }).maxCentroids).to.equal(10);
+		expect(() => new Sparstogram(10, undefined, { memoryBudget: budget, accuracy: { rankError: 0.01 } })).to.throw();
+	});
+
+	it('keeps maxCentroids within the budget, including once restored', () => {
+		const budget = estimateBytes(50);
+		const s = new Sparstogram(1000, undefined, { memoryBudget: budget });
+		s.maxCentroids = 1000;
+		expect(s.maxCentroids).to.equal(50);
+		fill(s, 500);
+		expect(s.centroidCount).to.equal(50);
+		expect(s.estimatedBytes).to.be.at.most(budget);
+		s.maxCentroids = 20;
+		expect(s.maxCentroids).to.equal(20);
+
+		const unbounded = new Sparstogram(1000);
+		fill(unbounded, 200);
+		for (const restored of [
+			Sparstogram.fromJSON(unbounded.toJSON(), { memoryBudget: budget }),
+			Sparstogram.deserialize(unbounded.serialize(), { memoryBudget: budget }),
+		]) {
+			expect(restored.centroidCount).to.equal(50);
+			restored.maxCentroids = 1000;
+			expect(restored.maxCentroids).to.equal(50);
+			expect(restored.estimatedBytes).to.be.at.most(budget);
+		}
+	});
+
+	it('shares a pool, compressing the largest member when another needs room', () => {
+		const pool = new MemoryPool(estimateBytes(100) + estimateBytes(0));	// two histograms' overhead, and 100 centroids
+		const a = new Sparstogram(1000, undefined, { memoryBudget: pool });
+		const b = new Sparstogram(1000, undefined, { memoryBudget: pool });
+		expect(pool.size).to.equal(2);
+		expect(a.maxCentroids + b.maxCentroids).to.equal(100);
+		fill(a, 300);
+		fill(b, 300, 0.25);
+		expect(pool.allotted).to.be.at.most(pool.budget);
+		expect(a.centroidCount + b.centroidCount).to.be.at.most(100);
+		expect(Math.abs(a.maxCentroids - b.maxCentroids)).to.be.at.most(1);
+		expect(a.centroidCount).to.be.at.most(a.maxCentroids);
+		expect(a.count).to.equal(300);
+
+		pool.leave(b);
+		expect(pool.size).to.equal(1);
+		fill(a, 100, 1000);
+		expect(a.maxCentroids).to.equal(centroidsForBudget(pool.budget));	// including the room for b's overhead
+	});
+
+	it('limits growth through maxCentroids to the free room', () => {
+		const pool = new MemoryPool(estimateBytes(20));
+		const s = new Sparstogram(5, undefined, { memoryBudget: pool });
+		s.maxCentroids = 1000;
+		expect(s.maxCentroids).to.equal(20);
+		s.maxCentroids = 8;
+		expect(pool.allotted).to.equal(estimateBytes(8));
+		const late = new Sparstogram(50, undefined, { memoryBudget: pool });
+		expect(late.maxCentroids).to.equal(centroidsForBudget(estimateBytes(12) - estimateBytes(0)));	// the rest, less its own overhead
+		expect(() => pool.grow({})).to.throw(/not a member/);
+	});
+});
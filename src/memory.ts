@@ -0,0 +1,162 @@
+import { BTree } from "digitree";
+
+/** Estimates the heap footprint of a histogram holding the given number of centroids.
+ * Each centroid costs an entry in the value-ordered index, an entry in the loss-ordered index, and a slot in the count tree;
+ * the figures are from the benchmark suite's memory-per-centroid measurement, with non-integer values (which V8 boxes).
+ */
+export function estimateBytes(centroids: number): number {
+	return HISTOGRAM_BYTES + centroids * BYTES_PER_CENTROID;
+}
+
+/** The number of centroids a histogram can hold within the given memory budget (see {@link estimateBytes})
+ * @throws {Error} If the budget doesn't allow for at least one centroid
+ */
+export function centroidsForBudget(bytes: number): number {
+	const centroids = Math.floor((bytes - HISTOGRAM_BYTES) / BYTES_PER_CENTROID);
+	if (!(centroids >= 1)) {
+		throw new Error(`Memory budget must allow for at least one centroid (${estimateBytes(1)} bytes)`);
+	}
+	return centroids;
+}
+
+interface PoolEntry {
+	/** The member's centroid budget (its maxCentroids) */
+	allowance: number;
+	id: number;
+	/** Applies a new allowance to the member, compressing it if it shrank */
+	resize: (allowance: number) => void;
+}
+
+/** A member's allowance, as ordered in the pool (immutable once in the tree) */
+interface Share {
+	allowance: number;
+	id: number;
+}
+
+/** A memory budget shared by several histograms (see the Sparstogram memoryBudget option).
+ * Each member's maxCentroids is its allowance of the pool.  A member that needs room for another centroid takes it from the pool's free room,
+ * or else from the member with the largest allowance, which compresses itself to release it; if no member has more than one centroid more than
+ * the one in need, it compresses itself instead, so members under pressure converge on equal shares.
+ * Members hold their allowance until they {@link leave} the pool.
+ */
+export class MemoryPool {
+	private _shares = new BTree<Share, Share>((e: Share) => e, (a: Share, b: Share) => a.allowance - b.allowance || a.id - b.id);
+	private _members = new Map<object, PoolEntry>();
+	private _byId = new Map<number, PoolEntry>();
+	private _allowances = 0;
+	private _nextId = 0;
+
+	/** @throws {Error} If the budget doesn't allow for at least one centroid */
+	constructor(
+		/** The shared budget, in bytes (see {@link estimateBytes}) */
+		readonly budget: number,
+	) {
+		centroidsForBudget(budget);
+	}
+
+	/** The estimated bytes allotted to members: their fixed overheads, plus their allowances of centroids */
+	get allotted(): number {
+		return this._members.size * HISTOGRAM_BYTES + this._allowances * BYTES_PER_CENTROID;
+	}
+
+	/** The number of member histograms */
+	get size(): number {
+		return this._members.size;
+	}
+
+	/** Adds a member, with as much of the requested allowance as is free (but at least one centroid, taken from another member if need be).
+	 * Room for the member's fixed overhead is taken from the members with the largest allowances.
+	 * Called by Sparstogram on construction with a pool.
+	 * @param resize Applies a reduced allowance to the member when another member takes room from it
+	 * @returns The allowance granted
+	 * @throws {Error} If the member has already joined
+	 */
+	join(member: object, requested: number, resize: (allowance: number) => void): number {
+		if (this._members.has(member)) {
+			throw new Error("Histogram is already a member of the pool");
+		}
+		const entry: PoolEntry = { allowance: 0, id: this._nextId++, resize };
+		this._members.set(member, entry);
+		this._byId.set(entry.id, entry);
+		this._shares.insert({ allowance: 0, id: entry.id });
+		while (this.allotted > this.budget && this.shrinkLargest(1)) { /* reclaiming room for the overhead */ }
+		this.setAllowance(entry, Math.min(requested, this.freeCentroids()));
+		if (entry.allowance < 1 && !this.grow(member)) {
+			this.setAllowance(entry, 1);	// every member holds at least one centroid, even if that overcommits the pool
+		}
+		return entry.allowance;
+	}
+
+	/** Removes a member, returning its allowance to the pool */
+	leave(member: object) {
+		const entry = this._members.get(member);
+		if (entry) {
+			this._shares.deleteAt(this._shares.find({ allowance: entry.allowance, id: entry.id }));
+			this._allowances -= entry.allowance;
+			this._members.delete(member);
+			this._byId.delete(entry.id);
+		}
+	}
+
+	/** Grows a member's allowance by one centroid, from free room or by compressing the member with the largest allowance
+	 * @returns True if granted; false if the member should compress itself
+	 */
+	grow(member: object): boolean {
+		const entry = this.entryOf(member);
+		if (this.freeCentroids() < 1) {
+			if (!this.shrinkLargest(entry.allowance + 2)) {
+				return false;
+			}
+		}
+		this.setAllowance(entry, entry.allowance + 1);
+		return true;
+	}
+
+	/** Sets a member's allowance to the requested number of centroids, limited to the free room when growing
+	 * @returns The allowance granted
+	 */
+	allot(member: object, requested: number): number {
+		const entry = this.entryOf(member);
+		this.setAllowance(entry, Math.max(1, Math.min(requested, entry.allowance + this.freeCentroids())));
+		return entry.allowance;
+	}
+
+	private entryOf(member: object): PoolEntry {
+		const entry = this._members.get(member);
+		if (!entry) {
+			throw new Error("Histogram is not a member of the pool");
+		}
+		return entry;
+	}
+
+	/** Takes a centroid from the member with the largest allowance, if that allowance is at least the given minimum
+	 * @returns True if a centroid was taken
+	 */
+	private shrinkLargest(minimum: number): boolean {
+		const largest = this._byId.get(this._shares.at(this._shares.last())!.id)!;
+		if (largest.allowance < minimum) {
+			return false;
+		}
+		this.setAllowance(largest, largest.allowance - 1);
+		largest.resize(largest.allowance);
+		return true;
+	}
+
+	private freeCentroids(): number {
+		return Math.max(0, Math.floor((this.budget - this.allotted) / BYTES_PER_CENTROID));
+	}
+
+	private setAllowance(entry: PoolEntry, allowance: number) {
+		this._shares.deleteAt(this._shares.find({ allowance: entry.allowance, id: entry.id }));
+		this._allowances += allowance - entry.allowance;
+		entry.allowance = allowance;
+		this._shares.insert({ allowance, id: entry.id });
+	}
+}
+
+// Measured heap bytes per centroid, by structure (see sparstogram.bench.ts)
+const CENTROID_INDEX_BYTES = 141;	// CentroidEntry and its slot in the value-ordered B+tree
+const LOSS_INDEX_BYTES = 88;	// Loss entry and its slot in the loss-ordered B+tree
+const COUNT_TREE_BYTES = 40;	// key and count slots in the order-statistic count tree
+const BYTES_PER_CENTROID = CENTROID_INDEX_BYTES + LOSS_INDEX_BYTES + COUNT_TREE_BYTES;
+const HISTOGRAM_BYTES = 1024;	// fixed cost of an empty histogram and its trees
@@ -0,0 +1,138 @@
+import type { Centroid } from "./sparstogram.js";
+
+/** Plain-data form of {@link Moments}, as carried in histogram snapshots */
+export interface MomentsJSON {
+	count: number;
+	sum: number;
+	mean: number;
+	/** Sum of squared deviations from the mean */
+	m2: number;
+	/** Sum of cubed deviations from the mean */
+	m3: number;
+	/** Sum of fourth-power deviations from the mean */
+	m4: number;
+}
+
+/** Exact running central moments of a weighted stream, combined pairwise using Pébay's update formulas
+ * (P. Pébay, "Formulas for Robust, One-Pass Parallel Computation of Covariances and Arbitrary-Order Statistical Moments", 2008).
+ * A single value is the special case of Welford's update; whole moment sets can be combined for merging, or separated for removal.
+ */
+export class Moments implements MomentsJSON {
+	count = 0;
+	sum = 0;
+	mean = 0;
+	m2 = 0;
+	m3 = 0;
+	m4 = 0;
+
+	/** Accumulates a centroid, treating it as a symmetric (normal) spread of its count around its value with its (sample) variance */
+	addCentroid(centroid: Centroid) {
+		this.combine(centroidMoments(centroid));
+	}
+
+	/** Removes a centroid's contribution, as accumulated by {@link addCentroid}.  Removing all of the count resets the moments. */
+	removeCentroid(centroid: Centroid) {
+		this.separate(centroidMoments(centroid));
+	}
+
+	/** Accumulates another set of moments */
+	merge(other: MomentsJSON) {
+		if (other.count > 0) {
+			this.combine(other);
+		}
+	}
+
+	/** Scales the weight of everything accumulated by the given factor (as for time decay); the mean is unchanged */
+	scale(factor: number) {
+		this.count *= factor;
+		this.sum *= factor;
+		this.m2 *= factor;
+		this.m3 *= factor;
+		this.m4 *= factor;
+	}
+
+	/** Sample variance (n - 1 denominator, matching centroid variance); 0 for fewer than two values */
+	get variance(): number {
+		return this.count > 1 ? Math.max(0, this.m2 / (this.count - 1)) : 0;
+	}
+
+	/** Sample skewness (g1); NaN if there is no spread */
+	get skewness(): number {
+		return this.m2 > 0 ? Math.sqrt(this.count) * this.m3 / Math.pow(this.m2, 1.5) : NaN;
+	}
+
+	/** Excess kurtosis (g2, 0 for a normal distribution); NaN if there is no spread */
+	get kurtosis(): number {
+		return this.m2 > 0 ? this.count * this.m4 / (this.m2 * this.m2) - 3 : NaN;
+	}
+
+	toJSON(): MomentsJSON {
+		const { count, sum, mean, m2, m3, m4 } = this;
+		return { count, sum, mean, m2, m3, m4 };
+	}
+
+	static fromJSON(json: MomentsJSON): Moments {
+		return Object.assign(new Moments(), {
+			count: json.count, sum: json.sum, mean: json.mean, m2: json.m2, m3: json.m3, m4: json.m4,
+		});
+	}
+
+	private combine(b: MomentsJSON) {
+		const nA = this.count;
+		const nB = b.count;
+		const n = nA + nB;
+		const delta = b.mean - this.mean;
+		const delta2 = delta * delta;
+		this.m4 += b.m4
+			+ delta2 * delta2 * nA * nB * (nA * nA - nA * nB + nB * nB) / (n * n * n)
+			+ 6 * delta2 * (nA * nA * b.m2 + nB * nB * this.m2) / (n * n)
+			+ 4 * delta * (nA * b.m3 - nB * this.m3) / n;
+		this.m3 += b.m3
+			+ delta2 * delta * nA * nB * (nA - nB) / (n * n)
+			+ 3 * delta * (nA * b.m2 - nB * this.m2) / n;
+		this.m2 += b.m2 + delta2 * nA * nB / n;
+		this.mean += delta * nB / n;
+		this.sum += b.sum;
+		this.count = n;
+	}
+
+	/** The inverse of combine: solves the combination formulas for the remaining (A) moments */
+	private separate(b: MomentsJSON) {
+		const n = this.count;
+		const nB = b.count;
+		const nA = n - nB;
+		if (nA <= 0) {
+			Object.assign(this, { count: 0, sum: 0, mean: 0, m2: 0, m3: 0, m4: 0 });
+			return;
+		}
+		const meanA = (n * this.mean - nB * b.mean) / nA;
+		const delta = b.mean - meanA;
+		const delta2 = delta * delta;
+		const m2A = Math.max(0, this.m2 - b.m2 - delta2 * nA * nB / n);
+		const m3A = this.m3 - b.m3
+			- delta2 * delta * nA * nB * (nA - nB) / (n * n)
+			- 3 * delta * (nA * b.m2 - nB * m2A) / n;
+		this.m4 = Math.max(0, this.m4 - b.m4
+			- delta2 * delta2 * nA * nB * (nA * nA - nA * nB + nB * nB) / (n * n * n)
+			- 6 * delta2 * (nA * nA * b.m2 + nB * nB * m2A) / (n * n)
+			- 4 * delta * (nA * b.m3 - nB * m3A) / n);
+		this.m3 = m3A;
+		this.m2 = m2A;
+		this.mean = meanA;
+		this.sum -= b.sum;
+		this.count = nA;
+	}
+}
+
+/** The moments of a centroid, treated as a symmetric (normal) spread of its count around its value with its (sample) variance */
+function centroidMoments(centroid: Centroid): MomentsJSON {
+	const m2 = centroid.variance * Math.max(0, centroid.count - 1);
+	return {
+		count: centroid.count,
+		sum: centroid.value * centroid.count,
+		mean: centroid.value,
+		m2,
+		m3: 0,
+		m4: 3 * m2 * m2 / centroid.count,	// normal kurtosis
+	};
+}
@@ -0,0 +1,102 @@
+import { expect } from 'chai';
+import { Sparstogram } from './sparstogram.js';
+import { exponentialHistogramCentroids, fromExponentialHistogram, toExponentialHistogram } from './otel.js';
+
+describe('OpenTelemetry ExponentialHistogram', () => {
+	describe('toExponentialHistogram', () => {
+		it('places values in base-2 buckets at the finest scale that fits', () => {
+			const h = new Sparstogram(100);
+			h.add(1);
+			h.add(2);
+			h.add(3);
+			h.add(4);
+			const point = toExponentialHistogram(h, { maxSize: 4 });
+			// At scale 1 (base √2), 1..4 spans indexes -1..3 (5 buckets); scale 0 (base 2) spans -1..1
+			expect(point.scale).to.equal(0);
+			expect(point.positive).to.deep.equal({ offset: -1, bucketCounts: [1, 1, 2] });
+			expect(point.negative.bucketCounts).to.deep.equal([]);
+			expect(point.count).to.equal(4);
+			expect(point.sum).to.equal(10);
+			expect(point.min).to.equal(1);
+			expect(point.max).to.equal(4);
+		});
+
+		it('counts negative values by absolute value, and zeros in the zero bucket', () => {
+			const h = new Sparstogram(100);
+			for (const v of [-8, -1, 0, 0, 0.001, 5]) h.add(v);
+			const point = toExponentialHistogram(h, { zeroThreshold: 0.01 });
+			expect(point.zeroCount).to.equal(3);
+			expect(point.zeroThreshold).to.equal(0.01);
+			expect(point.negative.bucketCounts.reduce((a, b) => a + b, 0)).to.equal(2);
+			expect(point.positive.bucketCounts.reduce((a, b) => a + b, 0)).to.equal(1);
+			// -8..-1 spans three octaves, limiting the scale to 5 (96 buckets) at 160 buckets
+			expect(point.scale).to.equal(5);
+			expect(point.negative.bucketCounts.length).to.be.at.most(160);
+		});
+
+		it('reduces scale to respect maxSize', () => {
+			const h = new Sparstogram(1000);
+			for (let i = 1; i <= 1000; i++) h.add(i * 1.7);
+			const point = toExponentialHistogram(h, { maxSize: 20 });
+			expect(point.positive.bucketCounts.length).to.be.at.most(20);
+			expect(point.positive.bucketCounts.reduce((a, b) => a + b, 0)).to.equal(1000);
+			const finer = toExponentialHistogram(h, { maxSize: 40 });
+			expect(finer.scale).to.be.greaterThan(point.scale);
+		});
+
+		it('converts an empty histogram', () => {
+			const point = toExponentialHistogram(new Sparstogram(10));
+			expect(point.count).to.equal(0);
+			expect(point.min).to.be.undefined;
+			expect(point.positive).to.deep.equal({ offset: 0, bucketCounts: [] });
+		});
+	});
+
+	describe('fromExponentialHistogram', () => {
+		const point = {
+			scale: 0,
+			count: 10,
+			sum: 30,
+			zeroCount: 1,
+			zeroThreshold: 0,
+			positive: { offset: 1, bucketCounts: [4, 0, 3] },	// (2,4], (4,8], (8,16]
+			negative: { offset: 0, bucketCounts: [2] },	// [-2,-1)
+		};
+
+		it('builds centroids at bucket midpoints with uniform variance', () => {
+			expect(exponentialHistogramCentroids(point)).to.deep.equal([
+				{ value: -1.5, variance: 1 / 12, count: 2 },
+				{ value: 0, variance: 0, count: 1 },
+				{ value: 3, variance: 4 / 12, count: 4 },
+				{ value: 12, variance: 64 / 12, count: 3 },
+			]);
+		});
+
+		it('clips the outer buckets to min and max', () => {
+			const centroids = exponentialHistogramCentroids({ ...point, min: -1.2, max: 10 });
+			expect(centroids[0].value).to.be.closeTo(-1.1, 1e-12);
+			expect(centroids[3].value).to.equal(9);
+		});
+
+		it('loads into a histogram that merges with others', () => {
+			const imported = fromExponentialHistogram(point, 10, [0.5]);
+			expect(imported.count).to.equal(10);
+			expect(imported.centroidCount).to.equal(4);
+			const local = new Sparstogram(10);
+			for (let i = 0; i < 10; i++) local.add(i);
+			local.mergeFrom(imported);
+			expect(local.count).to.equal(20);
+		});
+
+		it('round-trips counts through toExponentialHistogram', () => {
+			const h = new Sparstogram(200);
+			for (let i = 0; i < 500; i++) h.add(Math.exp(Math.sin(i) * 4));
+			const point = toExponentialHistogram(h);
+			const back = fromExponentialHistogram(point);
+			expect(back.count).to.equal(500);
+			const median = h.quantileAt(0.5).value;
+			// Bucket resolution at the chosen scale bounds the error
+			expect(back.quantileAt(0.5).value).to.be.closeTo(median, median * (2 ** (2 ** -point.scale) - 1));
+		});
+	});
+});
@@ -0,0 +1,150 @@
+import { Centroid, Sparstogram } from "./sparstogram.js";
+
+/** A contiguous run of exponential bucket counts, starting at bucket index `offset` */
+export interface ExponentialBuckets {
+	offset: number;
+	bucketCounts: number[];
+}
+
+/** An OpenTelemetry ExponentialHistogram data point (the value-bearing fields of the OTLP message).
+ * Bucket index i at the given scale covers (base^i, base^(i+1)], where base = 2^(2^-scale);
+ * negative buckets cover the same ranges of absolute value.
+ */
+export interface ExponentialHistogramDataPoint {
+	scale: number;
+	count: number;
+	sum?: number;
+	min?: number;
+	max?: number;
+	zeroCount: number;
+	zeroThreshold?: number;
+	positive: ExponentialBuckets;
+	negative: ExponentialBuckets;
+}
+
+/** Options for converting a histogram to an exponential histogram */
+export interface ExponentialHistogramOptions {
+	/** The maximum number of buckets for each of the positive and negative ranges (default 160, the OpenTelemetry SDK default) */
+	maxSize?: number;
+	/** The highest scale to consider (default 20, the OpenTelemetry maximum) */
+	maxScale?: number;
+	/** Values with an absolute value at or below this are counted in the zero bucket (default 0) */
+	zeroThreshold?: number;
+}
+
+/** Converts a histogram to an OpenTelemetry ExponentialHistogram data point.
+ * The scale is the highest (finest) for which both the positive and negative ranges fit in maxSize buckets.
+ * Each centroid's count is placed in the bucket containing the centroid's value.
+ * @throws {Error} If maxSize is less than 1
+ */
+export function toExponentialHistogram(histogram: Sparstogram, options: ExponentialHistogramOptions = {}): ExponentialHistogramDataPoint {
+	const maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+	if (maxSize < 1) {
+		throw new Error("maxSize must be at least 1");
+	}
+	const zeroThreshold = options.zeroThreshold ?? 0;
+	const centroids = [...histogram.ascending()];
+	const positive = centroids.filter(c => c.value > zeroThreshold);
+	const negative = centroids.filter(c => c.value < -zeroThreshold);
+
+	let scale = Math.min(MAX_SCALE, options.maxScale ?? MAX_SCALE);
+	while (scale > MIN_SCALE && (bucketSpan(positive, scale) > maxSize || bucketSpan(negative, scale) > maxSize)) {
+		--scale;
+	}
+
+	let zeroCount = 0;
+	for (const centroid of centroids) {
+		if (Math.abs(centroid.value) <= zeroThreshold) {
+			zeroCount += centroid.count;
+		}
+	}
+	return {
+		scale,
+		count: histogram.count,
+		sum: histogram.sum,
+		...(histogram.count ? { min: histogram.min, max: histogram.max } : {}),
+		zeroCount,
+		zeroThreshold,
+		positive: toBuckets(positive, scale),
+		negative: toBuckets(negative, scale),
+	};
+}
+
+/** Converts an exponential histogram data point into centroids, suitable for {@link Sparstogram.append}.
+ * Each non-empty bucket becomes a centroid at the bucket's midpoint, with the variance of a uniform spread over the bucket;
+ * the zero bucket becomes a centroid at 0 spread over the zero threshold.  Bucket ranges are clipped to the point's min and max, when given.
+ * @returns The centroids, in ascending value order
+ */
+export function exponentialHistogramCentroids(point: ExponentialHistogramDataPoint): Centroid[] {
+	const min = point.min ?? -Infinity;
+	const max = point.max ?? Infinity;
+	const centroids: Centroid[] = [];
+	const { offset: negativeOffset, bucketCounts: negativeCounts } = point.negative;
+	for (let i = negativeCounts.length - 1; i >= 0; --i) {
+		addRange(-upperBound(negativeOffset + i, point.scale), -lowerBound(negativeOffset + i, point.scale), negativeCounts[i]);
+	}
+	const zeroThreshold = point.zeroThreshold ?? 0;
+	addRange(-zeroThreshold, zeroThreshold, point.zeroCount);
+	const { offset: positiveOffset, bucketCounts: positiveCounts } = point.positive;
+	for (let i = 0; i < positiveCounts.length; ++i) {
+		addRange(lowerBound(positiveOffset + i, point.scale), upperBound(positiveOffset + i, point.scale), positiveCounts[i]);
+	}
+	return centroids;
+
+	function addRange(lower: number, upper: number, count: number) {
+		if (count > 0) {
+			lower = Math.min(Math.max(lower, min), upper);
+			upper = Math.max(Math.min(upper, max), lower);
+			centroids.push({ value: (lower + upper) / 2, variance: count > 1 ? (upper - lower) ** 2 / 12 : 0, count });
+		}
+	}
+}
+
+/** Creates a histogram from an exponential histogram data point.
+ * @param maxCentroids The maximum number of centroids of the resulting histogram (defaults to the number of non-empty buckets)
+ * @param markers Optional quantile markers for the resulting histogram
+ */
+export function fromExponentialHistogram(point: ExponentialHistogramDataPoint, maxCentroids?: number, markers?: number[]): Sparstogram {
+	const centroids = exponentialHistogramCentroids(point);
+	const histogram = new Sparstogram(Math.max(1, centroids.length), markers);
+	histogram.append(...centroids);
+	if (maxCentroids !== undefined) {
+		histogram.maxCentroids = maxCentroids;
+	}
+	return histogram;
+}
+
+/** Index of the bucket containing the given positive value: the i for which base^i < value <= base^(i+1) */
+function bucketIndex(value: number, scale: number): number {
+	return Math.ceil(Math.log2(value) * 2 ** scale) - 1;
+}
+
+function lowerBound(index: number, scale: number): number {
+	return 2 ** (index * 2 ** -scale);
+}
+
+function upperBound(index: number, scale: number): number {
+	return 2 ** ((index + 1) * 2 ** -scale);
+}
+
+/** Number of buckets needed to cover the centroids (all of one sign) at the given scale */
+function bucketSpan(centroids: Centroid[], scale: number): number {
+	if (!centroids.length) return 0;
+	const first = bucketIndex(Math.abs(centroids[0].value), scale);
+	const last = bucketIndex(Math.abs(centroids[centroids.length - 1].value), scale);
+	return Math.abs(last - first) + 1;
+}
+
+function toBuckets(centroids: Centroid[], scale: number): ExponentialBuckets {
+	if (!centroids.length) return { offset: 0, bucketCounts: [] };
+	const indexes = centroids.map(c => bucketIndex(Math.abs(c.value), scale));
+	// Centroids are in value order, so the extreme indexes are at the ends
+	const offset = Math.min(indexes[0], indexes[indexes.length - 1]);
+	const bucketCounts = new Array<number>(Math.max(indexes[0], indexes[indexes.length - 1]) - offset + 1).fill(0);
+	indexes.forEach((index, i) => bucketCounts[index - offset] += centroids[i].count);
+	return { offset, bucketCounts };
+}
+
+const DEFAULT_MAX_SIZE = 160;
+const MAX_SCALE = 20;
+const MIN_SCALE = -10;
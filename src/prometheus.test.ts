@@ -0,0 +1,102 @@
+import { expect } from 'chai';
+import { Sparstogram } from './sparstogram.js';
+import { toPrometheusHistogram, toPrometheusSummary } from './prometheus.js';
+
+describe('Prometheus exposition', () => {
+	function latencies(markers?: number[]) {
+		const h = new Sparstogram(100, markers);
+		for (let i = 1; i <= 100; i++) h.add(i);
+		return h;
+	}
+
+	describe('toPrometheusHistogram', () => {
+		it('renders cumulative buckets, sum and count', () => {
+			const text = toPrometheusHistogram({ histogram: latencies() }, { name: 'latency_ms', help: 'Request latency', buckets: [10, 50, 100] });
+			expect(text).to.equal([
+				'# HELP latency_ms Request latency',
+				'# TYPE latency_ms histogram',
+				'latency_ms_bucket{le="10"} 10',
+				'latency_ms_bucket{le="50"} 50',
+				'latency_ms_bucket{le="100"} 100',
+				'latency_ms_bucket{le="+Inf"} 100',
+				'latency_ms_sum 5050',
+				'latency_ms_count 100',
+				'',
+			].join('\n'));
+		});
+
+		it('renders several labelled series in one block', () => {
+			const a = latencies();
+			const b = new Sparstogram(10);
+			b.add(0.5);
+			const text = toPrometheusHistogram([
+				{ histogram: a, labels: { route: '/a', method: 'GET' } },
+				{ histogram: b, labels: { route: '/b', method: 'GET' } },
+			], { name: 'latency', buckets: [1] });
+			const lines = text.trim().split('\n');
+			expect(lines.filter(l => l.startsWith('# TYPE'))).to.have.lengthOf(1);
+			expect(lines).to.include('latency_bucket{route="/a",method="GET",le="1"} 1');
+			expect(lines).to.include('latency_bucket{route="/b",method="GET",le="1"} 1');
+			expect(lines).to.include('latency_count{route="/b",method="GET"} 1');
+		});
+
+		it('keeps interpolated buckets cumulative and bounded by the count', () => {
+			const h = new Sparstogram(5);
+			for (let i = 0; i < 1000; i++) h.add(Math.sin(i) * 50);
+			const counts = toPrometheusHistogram({ histogram: h }, { name: 'm', buckets: [-60, -25, 0, 25, 60, 1e6] })
+				.trim().split('\n').filter(l => l.startsWith('m_bucket')).map(l => Number(l.split(' ')[1]));
+			for (let i = 1; i < counts.length; i++) expect(counts[i]).to.be.at.least(counts[i - 1]);
+			expect(counts[counts.length - 1]).to.equal(1000);
+			expect(counts[counts.length - 2]).to.be.at.most(1000);
+		});
+
+		it('escapes label values and help text', () => {
+			const text = toPrometheusHistogram({ histogram: latencies(), labels: { path: 'a"b\\c\nd' } }, { name: 'm', help: 'x\\y\nz', buckets: [] });
+			expect(text).to.contain('# HELP m x\\\\y\\nz');
+			expect(text).to.contain('m_count{path="a\\"b\\\\c\\nd"} 100');
+		});
+
+		it('validates names and buckets', () => {
+			const histogram = latencies();
+			expect(() => toPrometheusHistogram({ histogram }, { name: '1bad', buckets: [] })).to.throw(/metric name/);
+			expect(() => toPrometheusHistogram({ histogram, labels: { le: 'x' } }, { name: 'm', buckets: [] })).to.throw(/label name/);
+			expect(() => toPrometheusHistogram({ histogram, labels: { 'a-b': 'x' } }, { name: 'm', buckets: [] })).to.throw(/label name/);
+			expect(() => toPrometheusHistogram({ histogram }, { name: 'm', buckets: [2, 1] })).to.throw(/ascending/);
+			expect(() => toPrometheusHistogram({ histogram }, { name: 'm', buckets: [NaN] })).to.throw();
+			expect(toPrometheusHistogram({ histogram }, { name: 'm', buckets: [1, Infinity] }).match(/le="\+Inf"/g)).to.have.lengthOf(1);
+		});
+	});
+
+	describe('toPrometheusSummary', () => {
+		it('renders requested quantiles from quantileAt', () => {
+			const h = latencies();
+			const text = toPrometheusSummary({ histogram: h, labels: { job: 'api' } }, { name: 'rpc', quantiles: [0.5, 0.99] });
+			expect(text).to.equal([
+				'# TYPE rpc summary',
+				`rpc{job="api",quantile="0.5"} ${h.quantileAt(0.5).value}`,
+				`rpc{job="api",quantile="0.99"} ${h.quantileAt(0.99).value}`,
+				'rpc_sum{job="api"} 5050',
+				'rpc_count{job="api"} 100',
+				'',
+			].join('\n'));
+		});
+
+		it('falls back to the histogram markers', () => {
+			const h = latencies([0.25, 0.75]);
+			const text = toPrometheusSummary({ histogram: h }, { name: 'rpc' });
+			expect(text).to.contain(`rpc{quantile="0.25"} ${h.markerAt(0).value}`);
+			expect(text).to.contain(`rpc{quantile="0.75"} ${h.markerAt(1).value}`);
+		});
+
+		it('reports NaN quantiles for an empty histogram', () => {
+			const text = toPrometheusSummary({ histogram: new Sparstogram(10, [0.5]) }, { name: 'rpc' });
+			expect(text).to.contain('rpc{quantile="0.5"} NaN');
+			expect(text).to.contain('rpc_count 0');
+		});
+
+		it('requires quantiles or markers', () => {
+			expect(() => toPrometheusSummary({ histogram: latencies() }, { name: 'rpc' })).to.throw(/markers/);
+			expect(() => toPrometheusSummary({ histogram: latencies() }, { name: 'rpc', quantiles: [1.5] })).to.throw(/between 0 and 1/);
+		});
+	});
+});
@@ -0,0 +1,135 @@
+import { Sparstogram } from "./sparstogram.js";
+
+/** A histogram and the labels identifying it within a metric family */
+export interface PrometheusSeries {
+	histogram: Sparstogram;
+	/** Label names and values for this series (names may not be "le" or "quantile", which are reserved) */
+	labels?: Record<string, string>;
+}
+
+/** Options common to the Prometheus renderings */
+export interface PrometheusOptions {
+	/** The metric family name (e.g. "http_request_duration_seconds") */
+	name: string;
+	/** Optional help text for the # HELP line */
+	help?: string;
+}
+
+/** Options for rendering a Prometheus histogram */
+export interface PrometheusHistogramOptions extends PrometheusOptions {
+	/** The upper bounds ("le") of the buckets, in ascending order.  The +Inf bucket is always added. */
+	buckets: number[];
+}
+
+/** Options for rendering a Prometheus summary */
+export interface PrometheusSummaryOptions extends PrometheusOptions {
+	/** The quantiles to report (0-1).  If omitted, each histogram's constructor markers are reported. */
+	quantiles?: number[];
+}
+
+/** Renders one or more histograms as a Prometheus text-format `histogram` metric family.
+ * Cumulative bucket counts are taken from {@link Sparstogram.rankAt} at each bound, so they are interpolated within centroids.
+ * @returns A scrape-ready block, including the # HELP and # TYPE lines
+ * @throws {Error} If the metric name, a label name, or the bucket bounds are invalid
+ */
+export function toPrometheusHistogram(series: PrometheusSeries | PrometheusSeries[], options: PrometheusHistogramOptions): string {
+	const bounds = validateBuckets(options.buckets);
+	const lines = header(options, "histogram");
+	for (const { histogram, labels } of Array.isArray(series) ? series : [series]) {
+		const base = labelPairs(labels);
+		let cumulative = 0;
+		for (const bound of bounds) {
+			// Ranks are interpolated; keep the buckets cumulative and within the total count
+			cumulative = Math.min(histogram.count, Math.max(cumulative, histogram.rankAt(bound)));
+			lines.push(`${options.name}_bucket${formatLabels([...base, ["le", formatNumber(bound)]])} ${formatNumber(cumulative)}`);
+		}
+		lines.push(`${options.name}_bucket${formatLabels([...base, ["le", "+Inf"]])} ${formatNumber(histogram.count)}`);
+		lines.push(`${options.name}_sum${formatLabels(base)} ${formatNumber(histogram.sum)}`);
+		lines.push(`${options.name}_count${formatLabels(base)} ${formatNumber(histogram.count)}`);
+	}
+	return lines.join("\n") + "\n";
+}
+
+/** Renders one or more histograms as a Prometheus text-format `summary` metric family.
+ * Quantile lines come from {@link Sparstogram.quantilesAt} for the requested quantiles,
+ * or from {@link Sparstogram.markerAt} for each of the histogram's markers if no quantiles are given.
+ * Quantiles of an empty histogram are reported as NaN.
+ * @returns A scrape-ready block, including the # HELP and # TYPE lines
+ * @throws {Error} If the metric name, a label name, or a quantile is invalid, or if no quantiles are given and a histogram has no markers
+ */
+export function toPrometheusSummary(series: PrometheusSeries | PrometheusSeries[], options: PrometheusSummaryOptions): string {
+	options.quantiles?.forEach(validateQuantile);
+	const lines = header(options, "summary");
+	for (const { histogram, labels } of Array.isArray(series) ? series : [series]) {
+		const base = labelPairs(labels);
+		const quantiles = options.quantiles ?? histogram.markers;
+		if (!quantiles) {
+			throw new Error("Either quantiles must be given, or the histogram must have markers");
+		}
+		const values = histogram.count === 0 ? quantiles.map(() => NaN)
+			: options.quantiles ? histogram.quantilesAt(quantiles).map(q => q.value)
+				: quantiles.map((_, i) => histogram.markerAt(i).value);
+		quantiles.forEach((quantile, i) => {
+			const value = values[i];
+			lines.push(`${options.name}${formatLabels([...base, ["quantile", formatNumber(quantile)]])} ${formatNumber(value)}`);
+		});
+		lines.push(`${options.name}_sum${formatLabels(base)} ${formatNumber(histogram.sum)}`);
+		lines.push(`${options.name}_count${formatLabels(base)} ${formatNumber(histogram.count)}`);
+	}
+	return lines.join("\n") + "\n";
+}
+
+function header(options: PrometheusOptions, type: string): string[] {
+	if (!METRIC_NAME.test(options.name)) {
+		throw new Error(`Invalid Prometheus metric name "${options.name}"`);
+	}
+	const lines: string[] = [];
+	if (options.help !== undefined) {
+		lines.push(`# HELP ${options.name} ${options.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+	}
+	lines.push(`# TYPE ${options.name} ${type}`);
+	return lines;
+}
+
+function labelPairs(labels: Record<string, string> | undefined): [string, string][] {
+	const pairs = Object.entries(labels ?? {});
+	for (const [name] of pairs) {
+		if (!LABEL_NAME.test(name) || name.startsWith("__") || RESERVED_LABELS.has(name)) {
+			throw new Error(`Invalid Prometheus label name "${name}"`);
+		}
+	}
+	return pairs;
+}
+
+function formatLabels(pairs: [string, string][]): string {
+	return pairs.length
+		? `{${pairs.map(([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`).join(",")}}`
+		: "";
+}
+
+function formatNumber(value: number): string {
+	return value === Infinity ? "+Inf" : value === -Infinity ? "-Inf" : String(value);
+}
+
+function validateBuckets(buckets: number[]): number[] {
+	const bounds = buckets.filter(bound => bound !== Infinity);
+	bounds.forEach((bound, i) => {
+		if (Number.isNaN(bound) || bound === -Infinity) {
+			throw new Error("Bucket bounds must be numbers (NaN and -Infinity are not supported)");
+		}
+		if (i > 0 && bound <= bounds[i - 1]) {
+			throw new Error("Bucket bounds must be in strictly ascending order");
+		}
+	});
+	return bounds;
+}
+
+function validateQuantile(quantile: number) {
+	if (!(quantile >= 0 && quantile <= 1)) {
+		throw new Error("Quantiles must be between 0 and 1");
+	}
+}
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const RESERVED_LABELS = new Set(["le", "quantile"]);
@@ -0,0 +1,73 @@
+import { expect } from 'chai';
+import { RollingSparstogram } from './rolling.js';
+
+describe('Rolling histograms', () => {
+	const series = (n: number) => Array.from({ length: n }, (_, i) => Math.round(Math.sin(i * 0.37) * 200 + i / 10));
+	const medianOf = (values: number[]) => [...values].sort((a, b) => a - b)[Math.round(0.5 * (values.length - 1))];
+
+	it('keeps a running median of the last N observations', () => {
+		const data = series(3000);
+		const r = new RollingSparstogram(1000, 500, [0.5]);
+		data.forEach((value, i) => {
+			r.add(value);
+			if (i % 97 === 0 || i === data.length - 1) {
+				const window = data.slice(Math.max(0, i + 1 - 500), i + 1);
+				expect(r.count).to.equal(window.length);
+				expect(r.markerAt(0).value, `after ${i + 1}`).to.equal(medianOf(window));
+			}
+		});
+		const window = data.slice(-500);
+		expect(r.view.count).to.equal(500);
+		expect(r.view.mean).to.be.closeTo(window.reduce((a, b) => a + b, 0) / 500, 1e-9);
+		expect(r.rankAt(Math.max(...window))).to.equal(500);
+	});
+
+	it('stays close to the running median under compression', () => {
+		const data = series(5000);
+		const r = new RollingSparstogram(40, 1000, [0.5]);
+		data.forEach(value => r.add(value));
+		const window = data.slice(-1000);
+		const sorted = [...window].sort((a, b) => a - b);
+		const rank = sorted.findIndex(v => v >= r.markerAt(0).value);
+		expect(Math.abs(rank - 500)).to.be.lessThan(50);
+		expect(r.view.count).to.be.closeTo(1000, 1e-9);
+		expect(r.quantileAt(0.5).value).to.be.within(sorted[400], sorted[600]);
+	});
+
+	it('evicts each observation from the centroid holding it, as the input drifts', () => {
+		const data = Array.from({ length: 20000 }, (_, i) => i * 0.05 + Math.sin(i * 0.37) * 20);
+		const r = new RollingSparstogram(50, 1000, [0.5]);
+		data.forEach((value, i) => {
+			r.add(value);
+			if ((i + 1) % 2000 === 0) {
+				const sorted = data.slice(i + 1 - 1000, i + 1).sort((a, b) => a - b);
+				expect(r.view.count).to.equal(1000);
+				expect(r.rankAt(sorted[0] - 10), `after ${i + 1}`).to.equal(0);	// no mass left behind by evicted observations
+				expect(r.view.min).to.be.within(sorted[0] - 30, sorted[0] + 10);	// narrowed to the inferred spread of each new end centroid
+				for (const q of [0.01, 0.5, 0.99]) {
+					expect(Math.abs(sorted.findIndex(v => v >= r.quantileAt(q).value) / sorted.length - q), `q${q} after ${i + 1}`).to.be.at.most(0.1);
+				}
+			}
+		});
+	});
+
+	it('adds many values as though added in order', () => {
+		const data = series(1200);
+		const one = new RollingSparstogram(2000, 300, [0.25, 0.75]);
+		data.forEach(value => one.add(value));
+		const bulk = new RollingSparstogram(2000, 300, [0.25, 0.75]);
+		bulk.addMany(data.slice(0, 100));
+		bulk.addMany(data.slice(100, 250));
+		bulk.addMany(new Float64Array(data.slice(250)));
+		expect([...bulk.view.ascending()]).to.deep.equal([...one.view.ascending()]);
+		expect(bulk.markerAt(1).value).to.equal(one.markerAt(1).value);
+		expect(() => bulk.addMany([NaN, ...data])).to.throw(/finite/);
+		expect(bulk.view.count).to.equal(300);
+	});
+
+	it('validates the size', () => {
+		expect(() => new RollingSparstogram(10, 0)).to.throw(/size/);
+		expect(() => new RollingSparstogram(10, 2.5)).to.throw(/size/);
+		expect(() => new RollingSparstogram(10, 5, undefined, { decay: { halfLife: 1 } })).to.throw(/decay/);
+	});
+});
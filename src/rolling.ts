@@ -0,0 +1,172 @@
+import { RingBuffer } from "./ring-buffer.js";
+import { Centroid, Peak, Quantile, Sparstogram, SparstogramOptions } from "./sparstogram.js";
+
+/** A centroid of the view that observations were added to.  Once merged by compression, it points on to the centroid it was merged into. */
+interface Holder {
+	value: number;
+	/** The observations in the window held by this centroid, including those of the centroids merged into it */
+	count: number;
+	parent?: Holder;
+}
+
+/** An observation in the window, and the centroid it was added to */
+interface Observation {
+	value: number;
+	holder: Holder;
+}
+
+/** A histogram of the last N observations, such as for the running median of the last 10,000 samples.
+ * The values in the window are remembered in insertion order, each with the centroid it was added to, which is followed through
+ * compression's merges (see {@link SparstogramOptions.onMerge}).  Once the window is full, each new value evicts the oldest,
+ * whose mass is removed (see {@link Sparstogram.remove}) from the centroid now holding it, so no mass outlives its observation.
+ * Markers and the running moments are updated by each removal, so they follow the window as it slides.
+ */
+export class RollingSparstogram {
+	private _recent: RingBuffer<Observation>;
+	private _view: Sparstogram;
+	private _holders = new Map<number, Holder>();	// the centroids holding observations in the window, by value
+
+	/** @throws {Error} If the size is not a positive integer, or the options include a decay */
+	constructor(
+		/** The maximum number of centroids (see {@link Sparstogram}) */
+		maxCentroids: number,
+		/** The number of observations in the window */
+		readonly size: number,
+		/** Optional quantiles to be maintained over the window (see {@link Sparstogram.markerAt}) */
+		markers?: number[],
+		/** Options for the window's histogram */
+		options: SparstogramOptions = {},
+	) {
+		if (!(Number.isInteger(size) && size >= 1)) {
+			throw new Error("Window size must be a positive integer");
+		}
+		if (options.decay) {
+			throw new Error("A rolling histogram can't decay; its observations are evicted instead");
+		}
+		this._recent = new RingBuffer<Observation>(size);
+		this._view = new Sparstogram(maxCentroids, markers, {
+			...options,
+			onMerge: (a, b, merged) => {
+				this.merged(a, b, merged);
+				options.onMerge?.(a, b, merged);
+			},
+		});
+	}
+
+	/** The histogram of the observations in the window.  It is updated in place, and must not be modified. */
+	get view(): Sparstogram {
+		return this._view;
+	}
+
+	/** The number of observations in the window (up to {@link size}) */
+	get count(): number {
+		return this._recent.length;
+	}
+
+	/** Adds a value, evicting the oldest observation if the window is full
+	 * @returns The loss incurred by compression, if any (see {@link Sparstogram.add})
+	 * @throws {Error} If the value is not finite
+	 */
+	add(value: number): number {
+		if (!Number.isFinite(value)) {
+			throw new Error("Value must be a finite number (NaN and Infinity are not supported)");
+		}
+		const holder = this.holderAt(value);	// before adding, so merges made by the addition are followed
+		const loss = this._view.add(value);
+		this.remember({ value, holder });
+		return loss;
+	}
+
+	/** Adds many values, as though each were {@link add}ed in order; only the last {@link size} of them can remain in the window
+	 * @returns The maximal loss incurred by compression, if any (see {@link Sparstogram.addMany})
+	 * @throws {Error} If any value is not finite, in which case none are added
+	 */
+	addMany(values: ArrayLike<number>): number {
+		const all = Float64Array.from(values);
+		if (!all.every(Number.isFinite)) {
+			throw new Error("Value must be a finite number (NaN and Infinity are not supported)");
+		}
+		const kept = Array.from(all.subarray(Math.max(0, all.length - this.size)), value => ({ value, holder: this.holderAt(value) }));
+		const loss = this._view.addMany(kept.map(observation => observation.value));
+		kept.forEach(observation => this.remember(observation));
+		return loss;
+	}
+
+	/** The value at the given quantile within the window (see {@link Sparstogram.quantileAt}) */
+	quantileAt(quantile: number): Quantile {
+		return this._view.quantileAt(quantile);
+	}
+
+	/** The values at the given quantiles within the window (see {@link Sparstogram.quantilesAt}) */
+	quantilesAt(quantiles: number[]): Quantile[] {
+		return this._view.quantilesAt(quantiles);
+	}
+
+	/** The rank of a value within the window (see {@link Sparstogram.rankAt}) */
+	rankAt(value: number): number {
+		return this._view.rankAt(value);
+	}
+
+	/** The interpolated count at a value within the window (see {@link Sparstogram.countAt}) */
+	countAt(value: number): number {
+		return this._view.countAt(value);
+	}
+
+	/** The marker at the given index within the window (see {@link Sparstogram.markerAt}) */
+	markerAt(index: number): Quantile {
+		return this._view.markerAt(index);
+	}
+
+	/** The peaks within the window (see {@link Sparstogram.peaks}) */
+	peaks(smoothing?: number): IterableIterator<Peak> {
+		return this._view.peaks(smoothing);
+	}
+
+	/** Remembers an observation (already added to the view), evicting the oldest if the window is full */
+	private remember(observation: Observation) {
+		if (this._recent.length === this.size) {
+			const oldest = this._recent.shift();
+			const holder = this.current(oldest.holder);
+			this._view.remove(oldest.value, 1, holder.value);
+			if (--holder.count === 0 && this._holders.get(holder.value) === holder) {
+				this._holders.delete(holder.value);
+			}
+		}
+		this._recent.push(observation);
+	}
+
+	/** The holder of the centroid at the value, counting an observation about to be added to it */
+	private holderAt(value: number): Holder {
+		let holder = this._holders.get(value);
+		if (!holder) {
+			holder = { value, count: 0 };
+			this._holders.set(value, holder);
+		}
+		++holder.count;
+		return holder;
+	}
+
+	/** The holder of the centroid now holding what was added to the given one, shortening the path to it */
+	private current(holder: Holder): Holder {
+		let root = holder;
+		while (root.parent) root = root.parent;
+		while (holder.parent) {
+			const parent = holder.parent;
+			holder.parent = root;
+			holder = parent;
+		}
+		return root;
+	}
+
+	/** Follows the view's merge of two centroids, pointing their holders to the merged one */
+	private merged(a: Centroid, b: Centroid, merged: Centroid) {
+		const holders = [this._holders.get(a.value), this._holders.get(b.value)].filter(holder => holder !== undefined);
+		if (holders.length) {
+			this._holders.delete(a.value);
+			this._holders.delete(b.value);
+			const root: Holder = { value: merged.value, count: holders.reduce((total, holder) => total + holder.count, 0) };
+			holders.forEach(holder => holder.parent = root);
+			this._holders.set(merged.value, root);
+		}
+	}
+}
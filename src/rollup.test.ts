@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import { Sparstogram } from './sparstogram.js';
+import { RollupStore } from './rollup.js';
+import { MemoryPool } from './memory.js';
+
+describe('Rollup stores', () => {
+	// "Minutes", "hours" of 10 minutes, and "days" of 100 minutes
+	const tiers = [{ span: 1, maxCentroids: 1000 }, { span: 10, maxCentroids: 1000 }, { span: 100, maxCentroids: 1000 }];
+	const valuesAt = (minute: number) => Array.from({ length: 5 }, (_, i) => Math.round(Math.sin(minute * 5 + i) * 100));
+	function filled(store: RollupStore, minutes: number) {
+		for (let minute = 0; minute < minutes; minute++) {
+			const histogram = new Sparstogram(10);
+			valuesAt(minute).forEach(v => histogram.add(v));
+			store.put(minute, histogram);
+		}
+		return store;
+	}
+
+	it('rolls each histogram up into every tier', () => {
+		const store = filled(new RollupStore(tiers), 250);
+		expect(store.get(0, 7.5)!.count).to.equal(5);
+		expect(store.get(1, 15)!.count).to.equal(50);
+		expect(store.get(2, 199)!.count).to.equal(500);
+		expect(store.get(2, 250)!.count).to.equal(250);
+		expect(store.get(2, 300)).to.equal(undefined);
+	});
+
+	it('covers a range with the fewest stored histograms', () => {
+		const store = filled(new RollupStore(tiers), 350);
+		expect(store.covering(5, 237)).to.have.lengthOf(5 + 9 + 1 + 3 + 7);
+		expect(store.covering(100, 300)).to.deep.equal([store.get(2, 100), store.get(2, 200)]);
+		expect(store.covering(12, 18)).to.have.lengthOf(6);
+		expect(store.covering(12.5, 17.2)).to.have.lengthOf(6);	// widened to whole minutes
+		expect(store.covering(400, 500)).to.have.lengthOf(0);
+		expect(() => store.covering(10, 5)).to.throw();
+	});
+
+	it('answers a range query as the histogram of the values within it', () => {
+		const store = filled(new RollupStore(tiers), 350);
+		const exact = new Sparstogram(1000, [0.5]);
+		for (let minute = 5; minute < 237; minute++) valuesAt(minute).forEach(v => exact.add(v));
+		const result = store.query(5, 237, 1000, [0.5]);
+		expect(result.count).to.equal(exact.count);
+		expect([...result.ascending()]).to.deep.equal([...exact.ascending()]);
+		expect(result.markerAt(0).value).to.equal(exact.markerAt(0).value);
+		expect(store.query(0, 350, 20).centroidCount).to.equal(20);
+	});
+
+	it('applies each tier its own maxCentroids, and aligns buckets to the origin', () => {
+		const store = filled(new RollupStore([{ span: 1, maxCentroids: 50 }, { span: 10, maxCentroids: 8 }], { origin: 3 }), 40);
+		expect(store.get(0, 4)!.centroidCount).to.be.at.most(5);
+		expect(store.get(1, 3)!.centroidCount).to.equal(8);
+		expect(store.get(1, 3)).to.equal(store.get(1, 12.9));
+		expect(store.get(1, 3)).to.not.equal(store.get(1, 13));
+	});
+
+	it('keeps query results out of the stored histograms\' memory pool', () => {
+		const pool = new MemoryPool(200_000);
+		const store = filled(new RollupStore(tiers, { histogram: { memoryBudget: pool } }), 30);
+		const members = pool.size;
+		const allotted = pool.allotted;
+		for (let i = 0; i < 20; i++) expect(store.query(0, 30).count).to.equal(150);
+		expect(pool.size).to.equal(members);
+		expect(pool.allotted).to.equal(allotted);
+	});
+
+	it('validates the tiers', () => {
+		expect(() => new RollupStore([])).to.throw();
+		expect(() => new RollupStore([{ span: 0, maxCentroids: 10 }])).to.throw(/span/);
+		expect(() => new RollupStore([{ span: 10, maxCentroids: 10 }, { span: 15, maxCentroids: 10 }])).to.throw(/multiple/);
+		expect(() => new RollupStore([{ span: 10, maxCentroids: 0 }])).to.throw(/maxCentroids/);
+		expect(() => new RollupStore(tiers).put(NaN, new Sparstogram(1))).to.throw(/finite/);
+	});
+});
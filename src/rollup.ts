@@ -0,0 +1,138 @@
+import { MemoryPool } from "./memory.js";
+import { Sparstogram, SparstogramOptions } from "./sparstogram.js";
+
+/** A tier of a rollup store: a resolution at which histograms are kept */
+export interface RollupTier {
+	/** The length of each bucket of time in the tier (e.g. 60_000 for minutes, in milliseconds).  Each tier's span must be a whole multiple of the prior tier's. */
+	span: number;
+	/** The maximum number of centroids of each of the tier's histograms */
+	maxCentroids: number;
+}
+
+/** Options for a rollup store */
+export interface RollupOptions {
+	/** The time from which buckets are aligned, such as the start of a week for weekly buckets (default 0) */
+	origin?: number;
+	/** Options for the stored histograms, and the results of queries (which don't join a memory pool, as they aren't kept by the store) */
+	histogram?: SparstogramOptions;
+}
+
+/** Histograms of a time series at several resolutions, such as minutely, hourly, daily and weekly.
+ * Each histogram put into the store is merged (see {@link Sparstogram.mergeFrom}) into the bucket containing its time in every tier,
+ * so each coarser bucket holds the rollup of its finer ones, compressed to the tier's own maxCentroids.
+ * A query over a range of time combines the fewest stored histograms that cover it: whole buckets of the coarsest tier that fit,
+ * and finer buckets for the remainder at either end.
+ */
+export class RollupStore {
+	private _buckets: Map<number, Sparstogram>[];
+	private _origin: number;
+	private _options: SparstogramOptions;
+
+	/** @throws {Error} If there are no tiers, a span is not a positive whole multiple of the prior tier's, a maxCentroids is less than 1, or the options include a decay */
+	constructor(
+		/** The tiers, from finest to coarsest */
+		readonly tiers: RollupTier[],
+		options: RollupOptions = {},
+	) {
+		if (!tiers.length) {
+			throw new Error("A rollup store must have at least one tier");
+		}
+		tiers.forEach((tier, i) => {
+			if (!(Number.isFinite(tier.span) && tier.span > 0)) {
+				throw new Error("Tier span must be a positive finite number");
+			}
+			if (i > 0 && !(tier.span > tiers[i - 1].span && Number.isInteger(tier.span / tiers[i - 1].span))) {
+				throw new Error("Each tier's span must be a whole multiple of the prior tier's, and greater");
+			}
+			if (!(tier.maxCentroids >= 1)) {
+				throw new Error("Tier maxCentroids must be at least 1");
+			}
+		});
+		if (options.histogram?.decay) {
+			throw new Error("Rollup histograms can't decay");
+		}
+		this.tiers = tiers.map(tier => ({ ...tier }));
+		Object.freeze(this.tiers);
+		this._buckets = tiers.map(() => new Map<number, Sparstogram>());
+		this._origin = options.origin ?? 0;
+		this._options = options.histogram ?? {};
+	}
+
+	/** Merges a histogram into the buckets containing the given time, in every tier.  The histogram itself is not retained.
+	 * @param time The time of the histogram, such as the start of the minute it covers
+	 * @param histogram The histogram to merge
+	 * @throws {Error} If the time is not finite
+	 */
+	put(time: number, histogram: Sparstogram) {
+		if (!Number.isFinite(time)) {
+			throw new Error("Time must be a finite number");
+		}
+		this.tiers.forEach((tier, i) => {
+			const start = this.align(time, tier.span);
+			let bucket = this._buckets[i].get(start);
+			if (!bucket) {
+				bucket = new Sparstogram(tier.maxCentroids, undefined, this._options);
+				this._buckets[i].set(start, bucket);
+			}
+			bucket.mergeFrom(histogram);
+		});
+	}
+
+	/** The histogram of the given tier's bucket containing the time, if anything has been put in it.  It must not be modified. */
+	get(tier: number, time: number): Sparstogram | undefined {
+		return this._buckets[tier]?.get(this.align(time, this.tiers[tier].span));
+	}
+
+	/** The fewest stored histograms covering a range of time, from the coarsest tiers in.
+	 * The range is widened to whole buckets of the finest tier; buckets with nothing put in them are omitted.
+	 * The histograms are those stored, and must not be modified.
+	 * @param from The start of the range (inclusive)
+	 * @param to The end of the range (exclusive)
+	 * @throws {Error} If from exceeds to
+	 */
+	covering(from: number, to: number): Sparstogram[] {
+		if (!(from <= to)) {
+			throw new Error("The start of the range must not exceed its end");
+		}
+		const finest = this.tiers[0].span;
+		const histograms: Sparstogram[] = [];
+		this.cover(this.align(from, finest), this.align(to, finest, true), this.tiers.length - 1, histograms);
+		return histograms;
+	}
+
+	/** Combines the histograms covering a range of time (see {@link covering}) into a new histogram, in one merge (see {@link Sparstogram.mergeAll}).
+	 * The result belongs to the caller, so it doesn't join the stored histograms' memory pool, if they have one.
+	 * @param from The start of the range (inclusive)
+	 * @param to The end of the range (exclusive)
+	 * @param maxCentroids The maximum number of centroids of the result (default the greatest of the tiers')
+	 * @param markers Optional quantiles to maintain in the result (see {@link Sparstogram.markerAt})
+	 * @throws {Error} If from exceeds to
+	 */
+	query(from: number, to: number, maxCentroids = Math.max(...this.tiers.map(tier => tier.maxCentroids)), markers?: number[]): Sparstogram {
+		const { memoryBudget, ...options } = this._options;
+		return Sparstogram.mergeAll(this.covering(from, to), maxCentroids, markers, memoryBudget instanceof MemoryPool ? options : this._options);
+	}
+
+	/** Collects the histograms covering [from, to), both aligned to the finest tier, using whole buckets of the given tier and finer ones at the ends */
+	private cover(from: number, to: number, tier: number, histograms: Sparstogram[]) {
+		const span = this.tiers[tier].span;
+		const first = tier > 0 ? this.align(from, span, true) : from;
+		const last = tier > 0 ? this.align(to, span) : to;
+		if (first >= last) {
+			if (tier > 0) this.cover(from, to, tier - 1, histograms);
+			return;
+		}
+		if (tier > 0) this.cover(from, first, tier - 1, histograms);
+		for (let start = first; start < last; start += span) {
+			const bucket = this._buckets[tier].get(start);
+			if (bucket) histograms.push(bucket);
+		}
+		if (tier > 0) this.cover(last, to, tier - 1, histograms);
+	}
+
+	/** The start of the bucket of the given span containing the time, or if up, the first bucket starting at or after it */
+	private align(time: number, span: number, up = false): number {
+		const buckets = (time - this._origin) / span;
+		return this._origin + (up ? Math.ceil(buckets) : Math.floor(buckets)) * span;
+	}
+}
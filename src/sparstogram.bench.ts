@@ -1,5 +1,6 @@
 import { Bench } from "tinybench";
 import { Sparstogram } from "./sparstogram.js";
+import { estimateBytes } from "./memory.js";
 
 interface BenchResult {
 	name: string;
@@ -22,6 +23,13 @@ for (const maxCentroids of [50, 500, 5000]) {
 	});
 }
 
+const sines = Float64Array.from({ length: 10_000 }, (_, i) => Math.sin(i) * 1000);
+for (const maxCentroids of [50, 500, 5000]) {
+	addBench.add(`addMany() maxCentroids=${maxCentroids} x10K`, () => {
+		new Sparstogram(maxCentroids).addMany(sines);
+	});
+}
+
 // ── 2. compressOneBucket() via compression-heavy add ────────────────────
 
 const compressHeavyBench = new Bench({ time: 2000, warmup: true });
@@ -75,7 +83,22 @@ for (const centroidCount of [100, 500, 2000]) {
 	}
 }
 
-// ── 6. Memory per centroid ──────────────────────────────────────────────
+// ── 6. rankAt() / valueAt() queries at large centroid counts ────────────
+
+const queryBench = new Bench({ time: 2000, warmup: true });
+
+for (const centroidCount of [1000, 20_000]) {
+	const s = new Sparstogram(centroidCount);
+	for (let i = 0; i < centroidCount; i++) s.add(i + 0.5);	// non-integer, so boxed as real-world values are (estimateBytes assumes this)
+	queryBench.add(`rankAt() centroids=${centroidCount} x1K`, () => {
+		for (let i = 0; i < 1000; i++) s.rankAt((i * 7919) % centroidCount + 0.5);
+	});
+	queryBench.add(`valueAt() centroids=${centroidCount} x1K`, () => {
+		for (let i = 0; i < 1000; i++) s.valueAt((i * 7919) % centroidCount + 1);
+	});
+}
+
+// ── 7. Memory per centroid ──────────────────────────────────────────────
 
 function measureMemoryPerCentroid(centroidCount: number): number {
 	// Force GC if available to get a cleaner baseline
@@ -124,6 +147,7 @@ async function main() {
 		["bulk compress", bulkCompressBench],
 		["mergeFrom()", mergeBench],
 		["peaks()", peaksBench],
+		["rankAt() / valueAt()", queryBench],
 	];
 
 	for (const [label, bench] of benches) {
@@ -137,11 +161,11 @@ async function main() {
 
 	// Memory benchmarks (outside tinybench timing)
 	process.stderr.write("\nRunning: memory per centroid...\n");
-	const memoryHeader = ["Centroid Count", "Bytes/Centroid"];
+	const memoryHeader = ["Centroid Count", "Bytes/Centroid", "Estimated"];
 	const memoryRows: string[][] = [];
 	for (const centroidCount of [100, 1000, 5000, 10_000]) {
 		const bytesPerCentroid = measureMemoryPerCentroid(centroidCount);
-		memoryRows.push([String(centroidCount), bytesPerCentroid.toFixed(1)]);
+		memoryRows.push([String(centroidCount), bytesPerCentroid.toFixed(1), (estimateBytes(centroidCount) / centroidCount).toFixed(1)]);
 		allResults.push({
 			name: `memory centroidCount=${centroidCount}`,
 			hz: 0,
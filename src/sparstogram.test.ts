@@ -1,5 +1,6 @@
 import { expect } from 'chai';
-import { Sparstogram, Centroid, Quantile, Marker, edgeContribution } from './sparstogram.js';
+import { Sparstogram, SparstogramOptions, Centroid, Quantile, Marker, edgeContribution } from './sparstogram.js';
+import { curvatureAwarePolicy, scaleFunctionPolicy } from './compression.js';
 
 describe('Sparstogram', () => {
 	let sparstogram: Sparstogram;
@@ -968,7 +969,7 @@ describe('Edge Cases & Robustness', () => {
 	describe('append() validation', () => {
 		it('append() with count=0 throws', () => {
 			const s = new Sparstogram(10);
-			expect(() => s.append({ value: 5, variance: 0, count: 0 })).to.throw('Centroid count must be at least 1');
+			expect(() => s.append({ value: 5, variance: 0, count: 0 })).to.throw('Centroid count must be a positive finite number');
 		});
 
 		it('append() with negative variance throws', () => {
@@ -2294,3 +2295,1153 @@ describe('Stress & Scale Testing', () => {
 		});
 	});
 });
+
+describe('JSON Serialization', () => {
+	function populated(maxCentroids: number, markers?: number[]) {
+		const s = new Sparstogram(maxCentroids, markers);
+		for (let i = 0; i < 200; i++) s.add(Math.sin(i) * 100);
+		for (let i = 0; i < 20; i++) s.add(42);
+		return s;
+	}
+
+	it('round-trips through JSON text', () => {
+		const original = populated(20, [0.5, 0.9]);
+		const restored = Sparstogram.fromJSON(JSON.parse(JSON.stringify(original)));
+
+		expect(restored.maxCentroids).to.equal(original.maxCentroids);
+		expect(restored.markers).to.deep.equal(original.markers);
+		expect(restored.count).to.equal(original.count);
+		expect(restored.centroidCount).to.equal(original.centroidCount);
+		expect([...restored.ascending()]).to.deep.equal([...original.ascending()]);
+		expect(restored.tightnessJ).to.be.closeTo(original.tightnessJ, 1e-6 * original.tightnessJ);
+	});
+
+	it('restored histogram answers queries exactly like the original', () => {
+		const original = populated(20, [0.1, 0.5, 0.99]);
+		const restored = Sparstogram.fromJSON(original.toJSON());
+
+		for (let v = -120; v <= 120; v += 7.5) {
+			expect(restored.rankAt(v)).to.equal(original.rankAt(v));
+			expect(restored.countAt(v)).to.equal(original.countAt(v));
+		}
+		for (let r = 1; r <= original.count; r += 13) {
+			expect(restored.valueAt(r)).to.deep.equal(original.valueAt(r));
+			expect(restored.valueAt(-r)).to.deep.equal(original.valueAt(-r));
+		}
+		for (let i = 0; i < 3; i++) {
+			expect(restored.markerAt(i)).to.deep.equal(original.markerAt(i));
+		}
+		expect([...restored.peaks(2)]).to.deep.equal([...original.peaks(2)]);
+	});
+
+	it('restored histogram continues to behave like the original', () => {
+		const original = populated(20, [0.5]);
+		const restored = Sparstogram.fromJSON(original.toJSON());
+		for (let i = 0; i < 50; i++) {
+			original.add(i * 3.3);
+			restored.add(i * 3.3);
+		}
+		expect(restored.count).to.equal(original.count);
+		expect(restored.centroidCount).to.be.at.most(20);
+		expect(restored.markerAt(0).rank).to.equal(original.markerAt(0).rank);
+	});
+
+	it('round-trips an empty histogram, with and without markers', () => {
+		const empty = Sparstogram.fromJSON(JSON.parse(JSON.stringify(new Sparstogram(5))));
+		expect(empty.count).to.equal(0);
+		expect(empty.markers).to.be.undefined;
+		expect(() => empty.valueAt(1)).to.throw();
+
+		const withMarkers = Sparstogram.fromJSON(JSON.parse(JSON.stringify(new Sparstogram(5, [0.5]))));
+		expect(() => withMarkers.markerAt(0)).to.throw();
+		withMarkers.add(7);
+		expect(withMarkers.markerAt(0).value).to.equal(7);
+	});
+
+	it('positions markers when the snapshot omits their positions', () => {
+		const original = new Sparstogram(50, [0.25, 0.75]);
+		for (let i = 0; i < 200; i++) original.add(Math.sin(i) * 100);
+		const { markerPositions: _, ...json } = original.toJSON();
+		const restored = Sparstogram.fromJSON(json);
+		expect(restored.markerAt(0).rank).to.equal(original.markerAt(0).rank);
+		expect(restored.markerAt(1).rank).to.equal(original.markerAt(1).rank);
+	});
+
+	it('rejects malformed snapshots', () => {
+		expect(() => Sparstogram.fromJSON({ maxCentroids: 0, centroids: [] })).to.throw();
+		expect(() => Sparstogram.fromJSON({ maxCentroids: 5, centroids: [{ value: 2, variance: 0, count: 1 }, { value: 1, variance: 0, count: 1 }] }))
+			.to.throw(/ascending/);
+		expect(() => Sparstogram.fromJSON({ maxCentroids: 5, centroids: [{ value: 1, variance: 0, count: 0 }] })).to.throw();
+		expect(() => Sparstogram.fromJSON({ maxCentroids: 5, markers: [0.5], centroids: [], markerPositions: [null, null] }))
+			.to.throw(/Marker positions/);
+	});
+
+	it('rejects marker positions inconsistent with the centroids', () => {
+		const original = new Sparstogram(20, [0.5]);
+		for (let i = 0; i < 100; i++) original.add(i % 30);
+		const json = original.toJSON();
+		const withPosition = (change: Partial<Marker>) => ({ ...json, markerPositions: [{ ...json.markerPositions![0]!, ...change }] });
+		expect(Sparstogram.fromJSON(withPosition({})).markerAt(0)).to.deep.equal(original.markerAt(0));
+		const { centroid } = json.markerPositions![0]!;
+		expect(() => Sparstogram.fromJSON(withPosition({ centroid: { ...centroid, value: centroid.value + 0.5 } }))).to.throw(/refer to the centroids/);
+		expect(() => Sparstogram.fromJSON(withPosition({ rank: 1000 }))).to.throw(/within/);
+		expect(() => Sparstogram.fromJSON(withPosition({ offset: centroid.count }))).to.throw(/within/);
+		expect(() => Sparstogram.fromJSON(withPosition({ offset: -1 }))).to.throw(/within/);
+	});
+
+	it('accepts the marker positions of its own snapshots, however the histogram was built', () => {
+		const markers = [0.1, 0.5, 0.9];
+		const weighted = (seed: number, options?: SparstogramOptions) => {
+			const s = new Sparstogram(20, markers, options);
+			for (let i = 0; i < 300; i++) s.add(Math.sin(seed + i * 0.53) * 80, Math.abs(Math.cos(seed * 2.1 + i)) * 2 + 0.05);
+			return s;
+		};
+		const decay = { halfLife: 50 };
+		const decaying = new Sparstogram(20, markers, { decay });
+		for (let i = 0; i < 300; i++) {
+			decaying.add(Math.cos(i) * 40 + i / 5, 1.5);
+			decaying.advanceTo(i);
+		}
+		const removed = weighted(3);
+		for (let i = 0; i < 100; i++) removed.remove(Math.sin(i * 0.91) * 80, 0.7);
+		const merged = weighted(4);
+		merged.mergeFrom(weighted(5));
+		const deterministic = weighted(6, { deterministic: true });
+		deterministic.mergeFrom(weighted(7, { deterministic: true }));
+		const cases: [string, Sparstogram, SparstogramOptions?][] = [
+			['weighted add', weighted(1)],
+			['fold', decaying, { decay }],
+			['remove', removed],
+			['mergeFrom', merged],
+			['deterministic mergeFrom', deterministic, { deterministic: true }],
+			['mergeAll', Sparstogram.mergeAll([weighted(8), weighted(9), weighted(10)], 20, markers)],
+		];
+		for (const [name, s, options] of cases) {
+			const restored = Sparstogram.fromJSON(s.toJSON(), options);
+			markers.forEach((_q, i) => expect(restored.markerAt(i).value, `${name}, marker ${i}`).to.be.closeTo(s.markerAt(i).value, 1e-9));
+		}
+	});
+
+	it('compresses a snapshot holding more centroids than maxCentroids', () => {
+		const centroids = Array.from({ length: 10 }, (_, i) => ({ value: i, variance: 0, count: 1 }));
+		const restored = Sparstogram.fromJSON({ maxCentroids: 4, centroids });
+		expect(restored.centroidCount).to.equal(4);
+		expect(restored.count).to.equal(10);
+	});
+});
+
+describe('Binary Serialization', () => {
+	it('round-trips centroids, markers and configuration', () => {
+		const original = new Sparstogram(30, [0.5, 0.95]);
+		for (let i = 0; i < 500; i++) original.add(Math.round(Math.sin(i) * 1000) / 10);
+		const restored = Sparstogram.deserialize(original.serialize());
+
+		expect(restored.maxCentroids).to.equal(30);
+		expect(restored.markers).to.deep.equal([0.5, 0.95]);
+		expect([...restored.ascending()]).to.deep.equal([...original.ascending()]);
+		expect(restored.markerAt(0)).to.deep.equal(original.markerAt(0));
+		expect(restored.markerAt(1)).to.deep.equal(original.markerAt(1));
+		expect(restored.rankAt(12.5)).to.equal(original.rankAt(12.5));
+	});
+
+	it('round-trips non-integer, negative and fractional-count centroids exactly', () => {
+		const original = new Sparstogram(10);
+		original.append(
+			{ value: -1e300, variance: 0, count: 1 },
+			{ value: -0.1, variance: 0.25, count: 3 },
+			{ value: 0, variance: 0, count: 2 },
+			{ value: 1 / 3, variance: 1e-9, count: 1.5 },
+			{ value: 7, variance: 0, count: 2 ** 40 },
+		);
+		const restored = Sparstogram.deserialize(original.serialize());
+		expect([...restored.ascending()]).to.deep.equal([...original.ascending()]);
+	});
+
+	it('is more compact than JSON for integer-valued data', () => {
+		const s = new Sparstogram(1000);
+		for (let i = 0; i < 5000; i++) s.add(i % 800);
+		const bytes = s.serialize();
+		expect(bytes.length).to.be.lessThan(JSON.stringify(s).length / 4);
+		expect(bytes.length).to.be.lessThan(800 * 4);
+	});
+
+	it('loads a 10k-centroid sketch', function () {
+		this.timeout(5000);
+		const s = new Sparstogram(10000);
+		for (let i = 0; i < 10000; i++) s.add(i * 0.5);
+		const restored = Sparstogram.deserialize(s.serialize());
+		expect(restored.centroidCount).to.equal(10000);
+		expect(restored.count).to.equal(10000);
+		expect(restored.quantileAt(0.5).value).to.equal(s.quantileAt(0.5).value);
+	});
+
+	it('rejects foreign, unsupported, truncated and oversized input', () => {
+		const bytes = new Sparstogram(5).serialize();
+		expect(() => Sparstogram.deserialize(new Uint8Array([0, 1, 5, 0, 0]))).to.throw(/Not a Sparstogram/);
+		expect(() => Sparstogram.deserialize(new Uint8Array([bytes[0], 99, 5, 0, 0]))).to.throw(/version/);
+		const s = new Sparstogram(5);
+		s.add(1);
+		s.add(2.5);
+		const full = s.serialize();
+		expect(() => Sparstogram.deserialize(full.subarray(0, full.length - 1))).to.throw(/end of data/);
+		expect(() => Sparstogram.deserialize(new Uint8Array([...full, 0]))).to.throw(/Unexpected data/);
+	});
+});
+
+describe('Running Moments', () => {
+	const values = Array.from({ length: 1000 }, (_, i) => Math.exp(Math.sin(i * 7.3)) * 10 + (i % 13));
+
+	function exactMoments(data: number[]) {
+		const n = data.length;
+		const mean = data.reduce((a, b) => a + b, 0) / n;
+		const central = (k: number) => data.reduce((a, b) => a + (b - mean) ** k, 0);
+		const m2 = central(2);
+		return {
+			sum: data.reduce((a, b) => a + b, 0),
+			mean,
+			variance: m2 / (n - 1),
+			skewness: Math.sqrt(n) * central(3) / m2 ** 1.5,
+			kurtosis: n * central(4) / (m2 * m2) - 3,
+		};
+	}
+
+	function expectMoments(s: Sparstogram, expected: ReturnType<typeof exactMoments>) {
+		expect(s.sum).to.be.closeTo(expected.sum, 1e-9 * Math.abs(expected.sum));
+		expect(s.mean).to.be.closeTo(expected.mean, 1e-9 * Math.abs(expected.mean));
+		expect(s.variance).to.be.closeTo(expected.variance, 1e-9 * expected.variance);
+		expect(s.stdDev).to.be.closeTo(Math.sqrt(expected.variance), 1e-9 * Math.sqrt(expected.variance));
+		expect(s.skewness).to.be.closeTo(expected.skewness, 1e-9);
+		expect(s.kurtosis).to.be.closeTo(expected.kurtosis, 1e-9);
+	}
+
+	it('match a two-pass computation regardless of compression', () => {
+		const uncompressed = new Sparstogram(2000);
+		const compressed = new Sparstogram(5);
+		values.forEach(v => { uncompressed.add(v); compressed.add(v); });
+		expect(compressed.centroidCount).to.equal(5);
+		expectMoments(uncompressed, exactMoments(values));
+		expectMoments(compressed, exactMoments(values));
+	});
+
+	it('combine exactly through mergeFrom', () => {
+		const a = new Sparstogram(10);
+		const b = new Sparstogram(10);
+		values.slice(0, 300).forEach(v => a.add(v));
+		values.slice(300).forEach(v => b.add(v + 50));
+		a.mergeFrom(b);
+		expectMoments(a, exactMoments([...values.slice(0, 300), ...values.slice(300).map(v => v + 50)]));
+	});
+
+	it('treat appended centroids as spreads of their variance', () => {
+		const s = new Sparstogram(1);
+		s.append({ value: 10, variance: 4, count: 5 }, { value: 20, variance: 0, count: 5 });
+		expect(s.sum).to.equal(150);
+		expect(s.mean).to.equal(15);
+		// Sum of squares: within (4 * 4) plus between (5 * 5 / 10 * 10²)
+		expect(s.variance).to.be.closeTo((16 + 250) / 9, 1e-12);
+		// The spread centroid is the lower one, so the tail is to the left
+		expect(s.skewness).to.be.lessThan(0);
+	});
+
+	it('are empty or degenerate for tiny histograms', () => {
+		const s = new Sparstogram(5);
+		expect(s.sum).to.equal(0);
+		expect(s.mean).to.be.NaN;
+		expect(s.variance).to.equal(0);
+		expect(s.skewness).to.be.NaN;
+		expect(s.kurtosis).to.be.NaN;
+		s.add(3);
+		s.add(3);
+		expect(s.mean).to.equal(3);
+		expect(s.stdDev).to.equal(0);
+		expect(s.skewness).to.be.NaN;
+	});
+
+	it('survive JSON and binary round trips', () => {
+		const s = new Sparstogram(5);
+		values.forEach(v => s.add(v));
+		const expected = exactMoments(values);
+		expectMoments(Sparstogram.fromJSON(JSON.parse(JSON.stringify(s))), expected);
+		expectMoments(Sparstogram.deserialize(s.serialize()), expected);
+	});
+
+	it('are derived from the centroids for snapshots without moments', () => {
+		const s = new Sparstogram(5);
+		s.append({ value: 1, variance: 0, count: 2 }, { value: 3, variance: 0, count: 2 });
+		const { moments: _, ...json } = s.toJSON();
+		expect(Sparstogram.fromJSON(json).variance).to.be.closeTo(4 / 3, 1e-12);
+
+		// The binary encoding always carries them
+		const bytes = s.serialize();
+		expect(() => Sparstogram.deserialize(bytes.slice(0, bytes.length - 56))).to.throw();
+	});
+});
+
+describe('Observed Range', () => {
+	function compressedSkewed() {
+		const s = new Sparstogram(4, [0, 1]);
+		for (let i = 0; i < 200; i++) s.add(i < 150 ? 10 + (i % 5) : 100 + i);
+		return s;
+	}
+
+	it('tracks the exact min and max through add, append and mergeFrom', () => {
+		const s = new Sparstogram(3);
+		expect(s.min).to.equal(Infinity);
+		expect(s.max).to.equal(-Infinity);
+		[5, -2, 9, 4, 7].forEach(v => s.add(v));
+		expect(s.min).to.equal(-2);
+		expect(s.max).to.equal(9);
+
+		s.append({ value: 20, variance: 4, count: 3 });
+		expect(s.max).to.equal(22);
+
+		const other = new Sparstogram(3);
+		other.add(-50);
+		s.mergeFrom(other);
+		expect(s.min).to.equal(-50);
+		expect(s.max).to.equal(22);
+	});
+
+	it('clamps interpolated values to the observed range', () => {
+		const s = compressedSkewed();
+		expect(s.centroidCount).to.equal(4);
+		for (let r = 1; r <= s.count; r++) {
+			const value = s.valueAt(r).value;
+			expect(value).to.be.within(s.min, s.max);
+		}
+		expect(s.valueAt(1).value).to.be.at.least(10);
+		expect(s.valueAt(-1).value).to.be.at.most(299);
+		expect(s.quantileAt(1).value).to.be.at.most(299);
+		expect(s.markerAt(0).value).to.be.at.least(10);
+		expect(s.markerAt(1).value).to.be.at.most(299);
+	});
+
+	it('clamps the ±1σ extrapolation of a merged centroid', () => {
+		const high = new Sparstogram(1, [1]);
+		[100, 101, 102, 0].forEach(v => high.add(v));
+		expect(high.centroidCount).to.equal(1);
+		expect(high.valueAt(-1).value).to.equal(102);
+		expect(high.quantileAt(1).value).to.equal(102);
+		expect(high.markerAt(0).value).to.equal(102);
+
+		const low = new Sparstogram(1, [0]);
+		[-100, -101, -102, 0].forEach(v => low.add(v));
+		expect(low.valueAt(1).value).to.equal(-102);
+		expect(low.markerAt(0).value).to.equal(-102);
+	});
+
+	it('reports no rank or count outside the observed range', () => {
+		const s = compressedSkewed();
+		expect(s.rankAt(9.999)).to.equal(0);
+		expect(s.rankAt(299)).to.equal(200);
+		expect(s.rankAt(1e9)).to.equal(200);
+		expect(s.countAt(9.999)).to.equal(0);
+		expect(s.countAt(299.001)).to.equal(0);
+		expect(new Sparstogram(3).rankAt(0)).to.equal(0);
+	});
+
+	it('survives JSON and binary round trips', () => {
+		const s = compressedSkewed();
+		const fromJSON = Sparstogram.fromJSON(JSON.parse(JSON.stringify(s)));
+		const fromBytes = Sparstogram.deserialize(s.serialize());
+		for (const restored of [fromJSON, fromBytes]) {
+			expect(restored.min).to.equal(10);
+			expect(restored.max).to.equal(299);
+		}
+		const empty = Sparstogram.fromJSON(JSON.parse(JSON.stringify(new Sparstogram(3))));
+		expect(empty.min).to.equal(Infinity);
+		expect(Sparstogram.deserialize(new Sparstogram(3).serialize()).max).to.equal(-Infinity);
+	});
+});
+
+describe('Weighted add()', () => {
+	it('is equivalent to adding the value weight times', () => {
+		const weighted = new Sparstogram(10, [0.5, 0.9]);
+		const repeated = new Sparstogram(10, [0.5, 0.9]);
+		const samples: [number, number][] = [[120, 37], [80, 5], [200, 2], [120, 3], [95, 11]];
+		for (const [value, weight] of samples) {
+			weighted.add(value, weight);
+			for (let i = 0; i < weight; i++) repeated.add(value);
+		}
+		expect(weighted.count).to.equal(58);
+		expect([...weighted.ascending()]).to.deep.equal([...repeated.ascending()]);
+		expect(weighted.mean).to.be.closeTo(repeated.mean, 1e-9);
+		expect(weighted.variance).to.be.closeTo(repeated.variance, 1e-9);
+		for (const r of [1, 10, 29, 50, 58]) {
+			expect(weighted.valueAt(r)).to.deep.equal(repeated.valueAt(r));
+		}
+		expect(weighted.markerAt(0)).to.deep.equal(repeated.markerAt(0));
+		expect(weighted.markerAt(1)).to.deep.equal(repeated.markerAt(1));
+	});
+
+	it('keeps markers at their target rank through duplicates and compression', () => {
+		const quantiles = [0, 0.1, 0.5, 0.99, 1];
+		const s = new Sparstogram(8, quantiles);
+		for (let i = 0; i < 500; i++) {
+			s.add(Math.round(Math.sin(i * 1.7) * 20), 1 + (i % 4));
+			quantiles.forEach((q, m) => {
+				const rank = Math.round(q * (s.count - 1)) + 1;
+				const marker = s.markerAt(m);
+				expect(marker.rank).to.equal(rank);
+				expect(marker.centroid).to.deep.equal(s.valueAt(rank).centroid);
+			});
+		}
+	});
+
+	it('accepts fractional weights', () => {
+		const s = new Sparstogram(3, [0.5]);
+		s.add(10, 0.25);
+		s.add(10, 0.5);
+		s.add(20, 1.5);
+		s.add(30, 0.75);
+		expect(s.count).to.equal(3);
+		expect(s.sum).to.equal(7.5 + 30 + 22.5);
+		expect(s.mean).to.equal(20);
+		// Ranks are cumulative mass, so rank 1 falls past the first centroid's 0.75
+		expect(s.valueAt(0.5).centroid).to.deep.equal({ value: 10, variance: 0, count: 0.75 });
+		expect(s.valueAt(1).centroid.value).to.equal(20);
+		expect(s.quantileAt(0.5).value).to.equal(20);
+		expect(s.markerAt(0).value).to.equal(20);
+		expect(s.rankAt(10)).to.equal(0.75);
+
+		const restored = Sparstogram.deserialize(s.serialize());
+		expect([...restored.ascending()]).to.deep.equal([...s.ascending()]);
+		expect(Sparstogram.fromJSON(JSON.parse(JSON.stringify(s))).count).to.equal(3);
+	});
+
+	it('combines fractional mass at a shared value without invalid variance', () => {
+		const s = new Sparstogram(5);
+		s.append({ value: 1, variance: 2, count: 3 });
+		s.add(1, 0.5);
+		const [centroid] = [...s.ascending()];
+		expect(centroid.count).to.equal(3.5);
+		expect(centroid.variance).to.be.closeTo(4 / 2.5, 1e-12);
+		s.add(2, 0.2);
+		s.add(2, 0.3);
+		expect([...s.ascending()][1]).to.deep.equal({ value: 2, variance: 0, count: 0.5 });
+	});
+
+	it('rejects non-positive and non-finite weights', () => {
+		const s = new Sparstogram(5);
+		for (const weight of [0, -1, NaN, Infinity]) {
+			expect(() => s.add(1, weight)).to.throw(/Weight/);
+		}
+		expect(s.count).to.equal(0);
+	});
+});
+
+describe('remove()', () => {
+	function expectMarkersOnTarget(s: Sparstogram, quantiles: number[]) {
+		quantiles.forEach((q, m) => {
+			const rank = Math.round(q * (s.count - 1)) + 1;
+			expect(s.markerAt(m).rank).to.equal(rank);
+			expect(s.markerAt(m).centroid).to.deep.equal(s.valueAt(rank).centroid);
+		});
+	}
+
+	it('exactly retracts values that have their own centroids', () => {
+		const quantiles = [0.25, 0.5, 0.9];
+		const s = new Sparstogram(100, quantiles);
+		const kept = new Sparstogram(100, quantiles);
+		for (let i = 0; i < 60; i++) {
+			s.add(i % 20);
+			if (i % 3 !== 0) kept.add(i % 20);
+		}
+		let error = 0;
+		for (let i = 0; i < 60; i += 3) error += s.remove(i % 20);
+		expect(error).to.equal(0);
+		expect(s.count).to.equal(kept.count);
+		expect([...s.ascending()]).to.deep.equal([...kept.ascending()]);
+		expect(s.tightnessJ).to.be.closeTo(kept.tightnessJ, 1e-9);
+		expect(s.mean).to.be.closeTo(kept.mean, 1e-12);
+		expect(s.variance).to.be.closeTo(kept.variance, 1e-9);
+		expect(s.skewness).to.be.closeTo(kept.skewness, 1e-9);
+		expect(s.kurtosis).to.be.closeTo(kept.kurtosis, 1e-9);
+		for (let m = 0; m < quantiles.length; m++) {
+			expect(s.markerAt(m)).to.deep.equal(kept.markerAt(m));
+		}
+	});
+
+	it('approximates removal from merged centroids and reports the error', () => {
+		const s = new Sparstogram(2);
+		s.append({ value: 10, variance: 4, count: 5 }, { value: 20, variance: 0, count: 2 });
+		expect(s.remove(11)).to.equal(1);
+		expect([...s.ascending()][0]).to.deep.equal({ value: 10, variance: (16 - 1) / 3, count: 4 });
+		// Takes 2 from the nearest (20), then 1 from 10
+		expect(s.remove(19, 3)).to.equal(2 * 1 + 9);
+		// The removed mass lies further out than the remaining spread, so no variance is left
+		expect([...s.ascending()]).to.deep.equal([{ value: 10, variance: 0, count: 3 }]);
+		expect(s.count).to.equal(3);
+		expect(s.centroidCount).to.equal(1);
+		// Narrowed when 20 was dropped, while the centroid at 10 still had a variance of 5
+		expect(s.max).to.equal(10 + Math.sqrt(5));
+	});
+
+	it('keeps scores, markers and compression consistent through interleaved adds and removes', () => {
+		const quantiles = [0, 0.5, 0.95, 1];
+		const s = new Sparstogram(12, quantiles);
+		const live: number[] = [];
+		for (let i = 0; i < 600; i++) {
+			const value = Math.round(Math.sin(i * 2.3) * 50);
+			s.add(value);
+			live.push(value);
+			if (i % 3 === 2) {
+				s.remove(live.splice(i % live.length, 1)[0]);
+			}
+			expect(s.count).to.equal(live.length);
+			expect(s.centroidCount).to.be.at.most(12);
+			expectMarkersOnTarget(s, quantiles);
+		}
+		s.maxCentroids = 3;
+		expect(s.centroidCount).to.equal(3);
+		expect(s.count).to.equal(live.length);
+		expect(s.sum).to.be.closeTo(live.reduce((a, b) => a + b, 0), 1e-6);
+	});
+
+	it('resets to empty once everything is removed', () => {
+		const s = new Sparstogram(5, [0.5]);
+		s.add(1, 2.5);
+		s.add(3);
+		s.remove(3);
+		s.remove(1, 2.5);
+		expect(s.count).to.equal(0);
+		expect(s.centroidCount).to.equal(0);
+		expect(s.min).to.equal(Infinity);
+		expect(s.max).to.equal(-Infinity);
+		expect(s.mean).to.be.NaN;
+		expect(() => s.markerAt(0)).to.throw();
+		s.add(7);
+		expect(s.markerAt(0).value).to.equal(7);
+		expect(s.mean).to.equal(7);
+	});
+
+	it('narrows the observed range when an end centroid is dropped', () => {
+		const s = new Sparstogram(10);
+		[1, 5, 6, 1000].forEach(v => s.add(v));
+		s.remove(1000);
+		expect(s.max).to.equal(6);
+		s.remove(5);
+		expect(s.min).to.equal(1);
+	});
+
+	it('takes mass from a given centroid, followed through merges', () => {
+		const merges: number[][] = [];
+		const s = new Sparstogram(3, undefined, { onMerge: (a, b, merged) => merges.push([a.value, b.value, merged.value]) });
+		[1, 2, 10, 11].forEach(v => s.add(v));
+		expect(merges).to.have.lengthOf(1);
+		const [a, b, merged] = merges[0];
+		expect(merged).to.be.oneOf([a, b]);
+		s.remove(a === 1 ? 1 : 10, 1, merged);	// taken from the merged centroid, not the nearest
+		expect(s.count).to.equal(3);
+		expect([...s.ascending()].find(c => c.value === merged)!.count).to.equal(1);
+		s.remove(5, 1, 99);	// no centroid at 99, so the nearest
+		expect(s.count).to.equal(2);
+	});
+
+	it('rejects invalid removals', () => {
+		const s = new Sparstogram(5);
+		s.add(1);
+		expect(() => s.remove(NaN)).to.throw(/finite/);
+		expect(() => s.remove(1, 0)).to.throw(/Count/);
+		expect(() => s.remove(1, 2)).to.throw(/more than/);
+		expect(() => new Sparstogram(5).remove(1)).to.throw(/more than/);
+		expect(s.count).to.equal(1);
+	});
+});
+
+describe('Logarithmic rank lookups', () => {
+	/** Reference implementations by linear scan over the centroids */
+	function linearValueAt(s: Sparstogram, rank: number) {
+		const centroids = rank > 0 ? [...s.ascending()] : [...s.descending()];
+		let remaining = Math.abs(rank);
+		for (const centroid of centroids) {
+			if (remaining <= centroid.count) return centroid;
+			remaining -= centroid.count;
+		}
+		throw new Error('out of range');
+	}
+
+	function linearCountBefore(s: Sparstogram, value: number) {
+		let sum = 0;
+		for (const centroid of s.ascending()) if (centroid.value < value) sum += centroid.count;
+		return sum;
+	}
+
+	it('agree with linear scans through inserts, increments, compression and removal', function () {
+		this.timeout(10000);
+		const s = new Sparstogram(300);
+		for (let i = 0; i < 3000; i++) {
+			s.add(Math.round(Math.sin(i * 0.37) * 400 + (i % 50)), 1 + (i % 3));
+			if (i % 5 === 0) s.remove(Math.round(Math.cos(i) * 400));
+		}
+		expect(s.centroidCount).to.equal(300);
+		for (let r = 1; r <= s.count; r += 37) {
+			expect(s.valueAt(r).centroid).to.deep.equal(linearValueAt(s, r));
+			expect(s.valueAt(-r).centroid).to.deep.equal(linearValueAt(s, -r));
+		}
+		for (const centroid of [...s.ascending()].filter((_, i) => i % 10 === 0)) {
+			if (centroid.variance === 0 && centroid.value > s.min && centroid.value < s.max) {
+				expect(s.rankAt(centroid.value)).to.equal(linearCountBefore(s, centroid.value) + centroid.count);
+			}
+		}
+	});
+
+	it('answers queries on a large histogram quickly', function () {
+		this.timeout(10000);
+		const s = new Sparstogram(50000);
+		for (let i = 0; i < 50000; i++) s.add(i);
+		const started = Date.now();
+		for (let i = 0; i < 20000; i++) {
+			expect(s.valueAt(i * 2 + 1).centroid.value).to.equal(i * 2);
+			s.rankAt(i * 2 + 0.5);
+		}
+		// A linear walk would visit ~25K centroids per query, ~1e9 visits in all
+		expect(Date.now() - started).to.be.lessThan(5000);
+	});
+});
+
+describe('Batch queries', () => {
+	function populated() {
+		const s = new Sparstogram(40);
+		for (let i = 0; i < 2000; i++) s.add(Math.round(Math.exp(Math.sin(i * 0.7) * 3) * 10) / 10, 1 + (i % 4));
+		return s;
+	}
+
+	it('quantilesAt() matches quantileAt(), in the caller\'s order', () => {
+		const s = populated();
+		const quantiles = [0.999, 0.5, 0, 0.9, 0.95, 0.5, 1, 0.01, 0.99, 0.25];
+		expect(s.quantilesAt(quantiles)).to.deep.equal(quantiles.map(q => s.quantileAt(q)));
+	});
+
+	it('rankAtMany() and countAtMany() match rankAt() and countAt(), in the caller\'s order', () => {
+		const s = populated();
+		const centroidValues = [...s.ascending()].map(c => c.value);
+		const values = [...centroidValues, -5, 0, 1e6, s.min, s.max, 3.3, 7.25, 12, 3.3]
+			.sort((a, b) => Math.sin(a * 13) - Math.sin(b * 13));
+		expect(s.rankAtMany(values)).to.deep.equal(values.map(v => s.rankAt(v)));
+		expect(s.countAtMany(values)).to.deep.equal(values.map(v => s.countAt(v)));
+	});
+
+	it('handles empty requests, empty histograms and fractional counts', () => {
+		const s = new Sparstogram(5);
+		expect(s.quantilesAt([])).to.deep.equal([]);
+		expect(s.rankAtMany([1, 2])).to.deep.equal([0, 0]);
+		expect(s.countAtMany([1])).to.deep.equal([0]);
+		expect(() => s.quantilesAt([0.5])).to.throw();
+
+		s.add(1, 0.25);
+		s.add(2, 0.5);
+		const quantiles = [0, 0.3, 0.5, 0.7, 1];
+		// A total count below 1 used to put the upper quantiles out of range
+		expect(s.quantilesAt(quantiles)).to.deep.equal(quantiles.map(q => s.quantileAt(q)));
+	});
+});
+
+describe('Range queries', () => {
+	it('counts, sums and averages exactly over uncompressed values, for each kind of bound', () => {
+		const s = new Sparstogram(100);
+		const values = [1, 2, 2, 3, 5, 5, 5, 8, 13, 21];
+		for (const v of values) s.add(v);
+		const brute = (lo: number, hi: number, includeLo: boolean, includeHi: boolean) =>
+			values.filter(v => (includeLo ? v >= lo : v > lo) && (includeHi ? v <= hi : v < hi));
+		for (const [lo, hi] of [[2, 5], [0, 100], [5, 5], [2.5, 7], [3, 13], [21, 30], [-5, 0.5]]) {
+			for (const bounds of ['[]', '[)', '(]', '()'] as const) {
+				const inside = brute(lo, hi, bounds[0] === '[', bounds[1] === ']');
+				const sum = inside.reduce((a, b) => a + b, 0);
+				expect(s.countBetween(lo, hi, bounds), `${bounds[0]}${lo},${hi}${bounds[1]}`).to.equal(inside.length);
+				expect(s.sumBetween(lo, hi, bounds)).to.be.closeTo(sum, 1e-9);
+				expect(Number.isNaN(s.meanBetween(lo, hi, bounds))).to.equal(inside.length === 0);
+				if (inside.length) expect(s.meanBetween(lo, hi, bounds)).to.be.closeTo(sum / inside.length, 1e-9);
+			}
+		}
+	});
+
+	it('agrees with rankAt() at the edges of a compressed histogram', () => {
+		const s = new Sparstogram(20);
+		for (let i = 0; i < 3000; i++) s.add(Math.round(Math.exp(Math.sin(i * 0.37) * 2) * 100) / 10);
+		for (const [lo, hi] of [[1, 5], [2.2, 2.3], [3.7, 40], [0, 100], [s.min, s.max]]) {
+			expect(s.countBetween(lo, hi, '(]')).to.equal(s.rankAt(hi) - s.rankAt(lo));
+			const mean = s.meanBetween(lo, hi, '(]');
+			if (!Number.isNaN(mean)) expect(mean).to.be.within(Math.max(lo, s.min), Math.min(hi, s.max));
+		}
+		const centroids = [...s.ascending()];
+		expect(s.countBetween(-Infinity, Infinity)).to.equal(s.count);
+		expect(s.sumBetween(-Infinity, Infinity)).to.be.closeTo(centroids.reduce((a, c) => a + c.value * c.count, 0), 1e-6);
+		// Adjacent ranges partition the mass
+		expect(s.countBetween(0, 4, '[)') + s.countBetween(4, 100, '[]')).to.equal(s.countBetween(0, 100));
+		expect(s.sumBetween(0, 4, '[)') + s.sumBetween(4, 100, '[]')).to.be.closeTo(s.sumBetween(0, 100), 1e-6);
+	});
+
+	it('handles empty histograms and rejects invalid ranges', () => {
+		const s = new Sparstogram(5);
+		expect(s.countBetween(0, 1)).to.equal(0);
+		expect(s.sumBetween(0, 1)).to.equal(0);
+		expect(Number.isNaN(s.meanBetween(0, 1))).to.equal(true);
+		s.add(1);
+		expect(() => s.countBetween(2, 1)).to.throw();
+		expect(() => s.countBetween(NaN, 1)).to.throw();
+		expect(() => s.countBetween(0, 1, '[[' as any)).to.throw();
+	});
+});
+
+describe('Bounded iteration', () => {
+	function populated() {
+		const s = new Sparstogram(100, [0.5, 0.25]);
+		for (let i = 1; i <= 20; i++) s.add(i * 10, 1 + (i % 3));
+		return s;
+	}
+	const values = (centroids: Iterable<Centroid>) => [...centroids].map(c => c.value);
+	const total = (centroids: Iterable<Centroid>) => [...centroids].reduce((a, c) => a + c.count, 0);
+
+	it('stops at an end value, marker or quantile', () => {
+		const s = populated();
+		expect(values(s.ascending({ value: 30 }, { value: 75 }))).to.deep.equal([30, 40, 50, 60, 70]);
+		expect(values(s.descending({ value: 75 }, { value: 30 }))).to.deep.equal([70, 60, 50, 40, 30]);
+		expect(values(s.ascending({ markerIndex: 1 }, { markerIndex: 0 })))
+			.to.deep.equal(values(s.ascending({ value: s.markerAt(1).centroid.value }, { value: s.markerAt(0).centroid.value })));
+		expect(values(s.ascending(undefined, { quantile: 0.1 }))).to.deep.equal([10, 20]);
+		expect(values(s.descending(undefined, { value: 185 }))).to.deep.equal([200, 190]);
+		expect(values(s.ascending({ value: 100 }, { value: 50 }))).to.deep.equal([]);
+		expect(() => [...s.ascending(undefined, {})]).to.throw();
+		expect(() => [...s.descending(undefined, { value: 1, quantile: 0.5 })]).to.throw();
+	});
+
+	it('trims the ends of a value window to the mass inside it', () => {
+		const s = new Sparstogram(5);
+		for (let i = 0; i < 1000; i++) s.add(i);
+		for (const [lo, hi] of [[100, 400], [0, 999], [250.5, 251], [-10, 2000]]) {
+			const ascending = [...s.ascending({ value: lo }, { value: hi }, { trim: true })];
+			const descending = [...s.descending({ value: hi }, { value: lo }, { trim: true })];
+			expect(total(ascending)).to.be.closeTo(s.countBetween(lo, hi), 1e-9);
+			expect(descending.reverse()).to.deep.equal(ascending);
+			expect(ascending.every(c => c.count > 0)).to.equal(true);
+		}
+	});
+
+	it('trims quantile and marker windows to whole units of rank', () => {
+		const s = populated();
+		const window = [...s.ascending({ quantile: 0.25 }, { quantile: 0.75 }, { trim: true })];
+		expect(total(window)).to.equal(s.quantileAt(0.75).rank - s.quantileAt(0.25).rank + 1);
+		expect(window[0].value).to.equal(s.quantileAt(0.25).centroid.value);
+		expect(window[window.length - 1].value).to.equal(s.quantileAt(0.75).centroid.value);
+		const fromMarker = [...s.descending({ markerIndex: 0 }, undefined, { trim: true })];
+		expect(total(fromMarker)).to.equal(s.markerAt(0).rank);
+		expect(fromMarker[0].count).to.equal(s.markerAt(0).offset + 1);
+		// Without bounds, trimming changes nothing
+		expect([...s.ascending(undefined, undefined, { trim: true })]).to.deep.equal([...s.ascending()]);
+		expect([...new Sparstogram(5).descending(undefined, undefined, { trim: true })]).to.deep.equal([]);
+	});
+});
+
+describe('Accuracy targets', () => {
+	function skewed(n: number) {
+		let seed = 11;
+		const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+		return Array.from({ length: n }, () => Math.round(Math.exp(random() * 2 + random() * 2 + random() * 2) * 100) / 100);
+	}
+	const rankOf = (sorted: number[], value: number) => {
+		let low = 0;
+		let high = sorted.length;
+		while (low < high) {
+			const middle = (low + high) >>> 1;
+			if (sorted[middle] <= value) low = middle + 1; else high = middle;
+		}
+		return low;
+	};
+
+	it('sizes its budget to meet a rank error target', () => {
+		const data = skewed(20000);
+		const sorted = [...data].sort((a, b) => a - b);
+		const s = new Sparstogram(2, undefined, { accuracy: { rankError: 0.01 } });
+		data.forEach(v => s.add(v));
+		expect(s.errorBound).to.be.at.most(0.01);
+		expect(s.maxCentroids).to.equal([...s.ascending()].length);
+		expect(s.maxCentroids).to.be.greaterThan(2).and.lessThan(200);
+		// A centroid's rank error is half its count, but a quantile interpolated within it can fall anywhere in its span
+		for (const q of [0.01, 0.25, 0.5, 0.9, 0.99, 0.999]) {
+			expect(Math.abs(rankOf(sorted, s.quantileAt(q).value) / sorted.length - q), `q${q}`).to.be.at.most(0.02);
+		}
+	});
+
+	it('sizes its budget to meet a relative value error target', () => {
+		const data = skewed(20000);
+		const s = new Sparstogram(1000, undefined, { accuracy: { relativeError: 0.05 } });
+		s.append(...data.map(value => ({ value, variance: 0, count: 1 })));
+		expect(s.errorBound).to.be.at.most(0.05);
+		expect(s.maxCentroids).to.be.lessThan(new Set(data).size);
+		for (const centroid of s.ascending()) {
+			expect(Math.sqrt(centroid.variance)).to.be.at.most(0.05 * Math.abs(centroid.value) + 1e-12);
+		}
+	});
+
+	it('keeps the centroids bounded when the pair with the least loss misses the target', function () {
+		this.timeout(5000);
+		let seed = 7;
+		const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+		const normal = () => Math.sqrt(-2 * Math.log(random())) * Math.cos(2 * Math.PI * random());
+		const around100 = new Sparstogram(10, undefined, { accuracy: { relativeError: 0.01 } });
+		const aroundZero = new Sparstogram(10, undefined, { accuracy: { relativeError: 0.01 } });
+		for (let i = 0; i < 20000; i++) {
+			around100.add(100 + 10 * normal());
+			aroundZero.add(normal());	// pairs straddling zero can never merge within a relative error
+		}
+		expect(around100.errorBound).to.be.at.most(0.01);
+		expect(around100.centroidCount).to.be.lessThan(100);
+		expect(aroundZero.errorBound).to.be.at.most(0.01);
+		expect(aroundZero.centroidCount).to.be.lessThan(1000);
+		expect(aroundZero.maxCentroids).to.equal(aroundZero.centroidCount);
+	});
+
+	it('keeps the target through merges and restores, and reports the bound reached by manual resizing', () => {
+		const accuracy = { rankError: 0.02 };
+		const a = new Sparstogram(10, undefined, { accuracy });
+		const b = new Sparstogram(10, undefined, { accuracy });
+		skewed(4000).forEach((v, i) => (i % 2 ? a : b).add(v));
+		a.mergeFrom(b);
+		expect(a.errorBound).to.be.at.most(0.02);
+		const restored = Sparstogram.fromJSON(a.toJSON(), { accuracy });
+		expect(restored.accuracy).to.deep.equal(accuracy);
+		expect(restored.errorBound).to.be.at.most(0.02);
+		a.maxCentroids = 3;
+		expect(a.errorBound).to.be.greaterThan(0.02);
+	});
+
+	it('reports the rank error bound without a target, and validates targets', () => {
+		const s = new Sparstogram(1);
+		expect(s.errorBound).to.equal(0);
+		expect(s.accuracy).to.equal(undefined);
+		s.add(1);
+		s.add(1);
+		expect(s.errorBound).to.equal(0);	// a single value has no error
+		s.add(3, 2);
+		expect(s.errorBound).to.equal(0.5);
+		expect(() => new Sparstogram(1, undefined, { accuracy: {} })).to.throw();
+		expect(() => new Sparstogram(1, undefined, { accuracy: { rankError: 0.1, relativeError: 0.1 } })).to.throw();
+		expect(() => new Sparstogram(1, undefined, { accuracy: { rankError: 1 } })).to.throw();
+		expect(() => new Sparstogram(1, undefined, { accuracy: { relativeError: 0 } })).to.throw();
+	});
+});
+
+describe('Bulk ingestion', () => {
+	const values = (n: number, seed = 11) => Float64Array.from({ length: n }, () => Math.round(((seed = (seed * 16807) % 2147483647) / 2147483647) * 500) / 4);
+	const markers = [0.1, 0.5, 0.9, 0.99];
+	const tightnessOf = (s: Sparstogram) => {
+		const centroids = [...s.ascending()];
+		return centroids.slice(1).reduce((sum, c, i) => sum + Math.min(c.count, centroids[i].count) * (c.value - centroids[i].value), 0);
+	};
+	const markersOf = (s: Sparstogram) => markers.map((_, i) => s.markerAt(i));
+
+	it('matches adding the values one at a time when nothing is compressed', () => {
+		const data = values(5000);
+		const one = new Sparstogram(1000, markers);
+		data.forEach(v => one.add(v));
+		const bulk = new Sparstogram(1000, markers);
+		expect(bulk.addMany(data)).to.equal(0);
+		expect([...bulk.ascending()]).to.deep.equal([...one.ascending()]);
+		expect(markersOf(bulk)).to.deep.equal(markersOf(one));
+		expect(bulk.tightnessJ).to.be.closeTo(one.tightnessJ, 1e-6);
+		expect([bulk.count, bulk.min, bulk.max]).to.deep.equal([one.count, one.min, one.max]);
+		expect(bulk.mean).to.be.closeTo(one.mean, 1e-9);
+		expect(bulk.variance).to.be.closeTo(one.variance, 1e-6);
+
+		// A small batch is inserted in place, merging with the existing centroids
+		const batch = [3.25, 200, 125.5, 3.25];
+		batch.forEach(v => one.add(v));
+		bulk.addMany(batch);
+		expect([...bulk.ascending()]).to.deep.equal([...one.ascending()]);
+		expect(markersOf(bulk)).to.deep.equal(markersOf(one));
+	});
+
+	it('compresses after the batch, keeping markers and tightness consistent with the centroids', () => {
+		const s = new Sparstogram(50, markers);
+		data(s);
+		expect(s.centroidCount).to.equal(50);
+		expect(s.count).to.equal(40000);
+		expect(s.tightnessJ).to.be.closeTo(tightnessOf(s), 1e-6);
+		const { markerPositions: _, ...json } = s.toJSON();
+		expect(markersOf(s)).to.deep.equal(markersOf(Sparstogram.fromJSON(json)));	// as positioned from scratch
+		for (let i = 0; i < 20; i++) s.add(i * 7.5);
+		expect(s.count).to.equal(40020);
+		expect(s.tightnessJ).to.be.closeTo(tightnessOf(s), 1e-6);
+
+		function data(histogram: Sparstogram) {
+			histogram.add(1000);
+			for (let i = 0; i < 3; i++) histogram.addMany(values(10000, i + 1));
+			histogram.addMany(Array.from({ length: 9999 }, (_, i) => i % 125));
+		}
+	});
+
+	it('rejects non-finite values without adding any, and accepts an empty batch', () => {
+		const s = new Sparstogram(10);
+		expect(s.addMany([])).to.equal(0);
+		expect(() => s.addMany([1, NaN, 2])).to.throw(/finite/);
+		expect(() => s.addMany(new Float64Array([Infinity]))).to.throw(/finite/);
+		expect(s.count).to.equal(0);
+		expect(s.centroidCount).to.equal(0);
+	});
+});
+
+describe('Time decay', () => {
+	const massOf = (s: Sparstogram) => [...s.ascending()].reduce((sum, c) => sum + c.count, 0);
+	const tightnessOf = (s: Sparstogram) => {
+		const centroids = [...s.ascending()];
+		return centroids.slice(1).reduce((sum, c, i) => sum + Math.min(c.count, centroids[i].count) * (c.value - centroids[i].value), 0);
+	};
+
+	it('halves every mass with each half-life, without changing values', () => {
+		const s = new Sparstogram(100, [0.5], { decay: { halfLife: 10 } });
+		for (let i = 1; i <= 100; i++) s.add(i);
+		const median = s.quantileAt(0.5).value;
+		const marker = s.markerAt(0).value;
+		s.advanceTo(5);
+		const factor = Math.SQRT1_2;
+		expect(s.time).to.equal(5);
+		expect(s.count).to.be.closeTo(100 * factor, 1e-9);
+		expect(massOf(s)).to.be.closeTo(100 * factor, 1e-9);
+		expect(s.sum).to.be.closeTo(5050 * factor, 1e-9);
+		expect(s.mean).to.be.closeTo(50.5, 1e-9);
+		expect(s.quantileAt(0.5).value).to.equal(median);
+		expect(s.markerAt(0).value).to.equal(marker);
+		expect(s.rankAt(50)).to.be.closeTo(50 * factor, 1e-9);
+		expect(s.countBetween(1, 10)).to.be.closeTo(10 * factor, 1e-9);
+		expect(s.valueAt(9.5 * factor).value).to.equal(10);
+		expect(s.tightnessJ).to.be.closeTo(99 * factor, 1e-9);
+		s.advanceTo(20);	// folded into the centroids
+		expect(s.count).to.be.closeTo(100 / 4, 1e-9);
+		expect(s.quantileAt(0.5).value).to.be.closeTo(median, 1);	// ranks are rounded to whole (decayed) units
+	});
+
+	it('leans toward recent values', () => {
+		const s = new Sparstogram(50, [0.5], { decay: { halfLife: 1000, start: 5000 } });
+		for (let i = 0; i < 1000; i++) s.add(10 + (i % 10) / 10);
+		s.advanceTo(10000);
+		for (let i = 0; i < 1000; i++) s.add(20 + (i % 10) / 10);
+		expect(s.count).to.be.closeTo(1000 + 1000 / 32, 1e-6);
+		expect(s.markerAt(0).value).to.be.within(20, 21);
+		expect(s.quantileAt(0.05).value).to.be.within(20, 21);
+		expect(s.mean).to.be.closeTo((10.45 / 32 + 20.45) / (1 + 1 / 32), 1e-6);
+	});
+
+	it('prunes centroids whose mass falls below the threshold', () => {
+		const s = new Sparstogram(100, [0.5], { decay: { halfLife: 1, pruneBelow: 0.2 } });
+		s.add(1);
+		s.add(2, 4);
+		s.advanceTo(3);	// 1 → 0.125, 2 → 0.5
+		expect(s.centroidCount).to.equal(1);
+		expect(s.count).to.be.closeTo(0.5, 1e-12);
+		expect(s.min).to.equal(2);
+		expect(s.mean).to.be.closeTo(2, 1e-9);
+		expect(s.markerAt(0).value).to.equal(2);
+		s.advanceTo(10);
+		expect(s.centroidCount).to.equal(0);
+		expect(s.count).to.equal(0);
+		expect(() => s.markerAt(0)).to.throw();
+		s.add(3);
+		expect(s.markerAt(0).value).to.equal(3);
+	});
+
+	it('keeps count, markers and tightness consistent as values are added and removed over time', () => {
+		const markers = [0.1, 0.5, 0.9];
+		const s = new Sparstogram(40, markers, { decay: { halfLife: 50 } });
+		for (let t = 1; t <= 400; t++) {
+			s.advanceTo(t);
+			for (let i = 0; i < 5; i++) s.add(Math.round(Math.sin(t * 1.7 + i) * 100 + t));
+			if (t % 9 === 0) s.remove(t, 0.5);
+		}
+		expect(massOf(s)).to.be.closeTo(s.count, 1e-6);
+		expect(s.tightnessJ).to.be.closeTo(tightnessOf(s), 1e-6);
+		// Marker ranks are rounded to whole units of stored mass, so they can differ by a unit from positions found from scratch
+		const { markerPositions: _, ...json } = s.toJSON();
+		const fresh = Sparstogram.fromJSON(json, { decay: { halfLife: 50 } });
+		markers.forEach((_q, i) => expect(s.markerAt(i).rank, `marker ${i}`).to.be.closeTo(fresh.markerAt(i).rank, 1));
+
+		// Snapshots hold the decayed masses (the decay is pending here, short of a fold), and leave the histogram as it was
+		const centroids = [...s.ascending()];
+		const positions = markers.map((_q, i) => s.markerAt(i));
+		const restored = Sparstogram.fromJSON(JSON.parse(JSON.stringify(s)), { decay: { halfLife: 50 } });
+		const decoded = Sparstogram.deserialize(s.serialize(), { decay: { halfLife: 50 } });
+		expect([...s.ascending()]).to.deep.equal(centroids);
+		markers.forEach((_q, i) => expect(s.markerAt(i)).to.deep.equal(positions[i]));
+		for (const copy of [restored, decoded]) {
+			expect(copy.time).to.equal(400);
+			expect(copy.count).to.be.closeTo(s.count, 1e-9);
+			expect(copy.centroidCount).to.equal(s.centroidCount);
+			markers.forEach((_q, i) => {
+				expect(copy.markerAt(i).value, `marker ${i}`).to.be.closeTo(s.markerAt(i).value, 1e-9);
+				expect(copy.markerAt(i).rank, `marker ${i}`).to.be.closeTo(s.markerAt(i).rank, 1);
+			});
+			expect(copy.quantileAt(0.9).centroid.value).to.equal(s.quantileAt(0.9).centroid.value);	// interpolated in decayed rather than stored units
+		}
+	});
+
+	it('keeps the time through a binary round trip', () => {
+		const decay = { halfLife: 60_000, start: 1_700_000_000_000 };
+		const s = new Sparstogram(20, [0.5], { decay });
+		for (let i = 0; i < 100; i++) {
+			s.advanceTo(decay.start + i * 1000);
+			s.add(i % 17);
+		}
+		const restored = Sparstogram.deserialize(s.serialize(), { decay });
+		expect(restored.time).to.equal(s.time);
+		s.advanceTo(s.time + 30_000);
+		restored.advanceTo(restored.time + 30_000);
+		expect(restored.count).to.be.closeTo(s.count, 1e-9);
+		expect(restored.count).to.be.greaterThan(0);
+		expect(Sparstogram.deserialize(new Sparstogram(5).serialize(), { decay }).time).to.equal(decay.start);
+	});
+
+	it('restores its own snapshots once the decay has been folded', () => {
+		const decay = { halfLife: 100 };
+		const s = new Sparstogram(30, [0.1, 0.5, 0.9], { decay });
+		for (let i = 0; i < 300; i++) {
+			s.add(Math.sin(i) * 100 + i / 10);
+			s.advanceTo(i);
+			if (i > 100 && i % 10 === 0) {
+				for (const copy of [Sparstogram.fromJSON(s.toJSON(), { decay }), Sparstogram.deserialize(s.serialize(), { decay })]) {
+					expect(copy.count, `at ${i}`).to.be.closeTo(s.count, 1e-9);
+					[0, 1, 2].forEach(m => expect(copy.markerAt(m).value, `marker ${m} at ${i}`).to.be.closeTo(s.markerAt(m).value, 1e-9));
+				}
+			}
+		}
+	});
+
+	it('validates the decay and its time', () => {
+		expect(() => new Sparstogram(10).advanceTo(1)).to.throw(/decay/);
+		expect(() => new Sparstogram(10, undefined, { decay: { halfLife: 0 } })).to.throw(/halfLife/);
+		expect(() => new Sparstogram(10, undefined, { decay: { halfLife: 1, pruneBelow: -1 } })).to.throw(/pruneBelow/);
+		const s = new Sparstogram(10, undefined, { decay: { halfLife: 1, start: 10 } });
+		expect(s.decay).to.deep.equal({ halfLife: 1, pruneBelow: 0.01, start: 10 });
+		expect(() => s.advanceTo(9)).to.throw(/Time/);
+		expect(() => s.advanceTo(NaN)).to.throw(/Time/);
+		expect(new Sparstogram(10).time).to.equal(0);
+	});
+});
+
+describe('Merging many histograms', () => {
+	const shard = (seed: number, n: number) => {
+		const s = new Sparstogram(30);
+		for (let i = 0; i < n; i++) s.add(Math.round(Math.sin(seed * 7.1 + i * 0.61) * 300 + seed * 3) / 4);
+		return s;
+	};
+	const shuffled = <T>(items: T[], seed: number) => {
+		const result = [...items];
+		for (let i = result.length - 1; i > 0; i--) {
+			const j = Math.floor(Math.abs(Math.sin(seed * 13.7 + i)) * (i + 1));
+			[result[i], result[j]] = [result[j], result[i]];
+		}
+		return result;
+	};
+
+	it('gives the same result whatever the order of the histograms', () => {
+		const shards = Array.from({ length: 40 }, (_, i) => shard(i, 50 + i * 7));
+		const merged = Sparstogram.mergeAll(shards, 60, [0.5, 0.99]);
+		for (const seed of [1, 2, 3]) {
+			const again = Sparstogram.mergeAll(shuffled(shards, seed), 60, [0.5, 0.99]);
+			expect(again.toJSON()).to.deep.equal(merged.toJSON());
+		}
+		expect(merged.centroidCount).to.equal(60);
+		expect(merged.count).to.equal(shards.reduce((sum, s) => sum + s.count, 0));
+		expect(merged.min).to.equal(Math.min(...shards.map(s => s.min)));
+		expect(merged.max).to.equal(Math.max(...shards.map(s => s.max)));
+	});
+
+	it('matches a series of merges when nothing is compressed', () => {
+		const shards = Array.from({ length: 12 }, (_, i) => shard(i, 20));
+		const merged = Sparstogram.mergeAll(shards, 1000, [0.5]);
+		const serial = new Sparstogram(1000, [0.5]);
+		shards.forEach(s => serial.mergeFrom(s));
+		expect(merged.count).to.equal(serial.count);
+		expect(merged.centroidCount).to.equal(serial.centroidCount);
+		[...merged.ascending()].forEach((c, i) => {
+			const other = [...serial.ascending()][i];
+			expect(c.value).to.equal(other.value);
+			expect(c.count).to.equal(other.count);
+		});
+		expect(merged.markerAt(0).value).to.equal(serial.markerAt(0).value);
+		expect(merged.mean).to.be.closeTo(serial.mean, 1e-9);
+		expect(merged.variance).to.be.closeTo(serial.variance, 1e-6);
+	});
+
+	it('leaves its inputs alone, and handles empty and repeated inputs', () => {
+		const a = shard(1, 100);
+		const before = a.toJSON();
+		const merged = Sparstogram.mergeAll([a, a, new Sparstogram(5)], 10);
+		expect(a.toJSON()).to.deep.equal(before);
+		expect(merged.count).to.equal(2 * a.count);
+		expect(merged.centroidCount).to.equal(10);
+		expect(Sparstogram.mergeAll([], 10).count).to.equal(0);
+	});
+
+	it('restores its result from its own snapshot, with fractional weights', () => {
+		const markers = [0.25, 0.5, 0.75];
+		for (let seed = 1; seed < 30; seed++) {
+			const shards = [0, 1, 2].map(k => {
+				const s = new Sparstogram(20, markers);
+				for (let i = 0; i < 200; i++) s.add(Math.sin(seed * 5.3 + k * 1.7 + i * 0.37) * 50 + 50, Math.abs(Math.cos(seed + i * 0.71)) * 3 + 0.1);
+				return s;
+			});
+			const merged = Sparstogram.mergeAll(shards, 20, markers);
+			for (const copy of [Sparstogram.fromJSON(merged.toJSON()), Sparstogram.deserialize(merged.serialize())]) {
+				markers.forEach((_q, i) => expect(copy.markerAt(i), `seed ${seed}, marker ${i}`).to.deep.equal(merged.markerAt(i)));
+			}
+		}
+	});
+});
+
+describe('Deterministic merging', () => {
+	const build = (seed: number, n: number, maxCentroids: number, options: SparstogramOptions = { deterministic: true }) => {
+		const s = new Sparstogram(maxCentroids, [0.1, 0.5, 0.9], options);
+		for (let i = 0; i < n; i++) s.add(Math.round(Math.sin(seed * 3.3 + i * 0.83) * 500 + Math.cos(i * seed) * 40) / 8);
+		return s;
+	};
+
+	it('is commutative, even for compressed inputs and positional policies', () => {
+		for (const policy of [curvatureAwarePolicy, scaleFunctionPolicy('k2')]) {
+			const options = { deterministic: true, policy };
+			const ab = build(1, 400, 40, options);
+			ab.mergeFrom(build(2, 700, 40, options));
+			const ba = build(2, 700, 40, options);
+			ba.mergeFrom(build(1, 400, 40, options));
+			expect(ab.isIdenticalTo(ba)).to.equal(true);
+			expect(ab.centroidCount).to.equal(40);
+			expect(ab.count).to.equal(1100);
+		}
+	});
+
+	it('is associative for exact inputs', () => {
+		const left = build(1, 60, 1000);
+		const middle = build(2, 60, 1000);
+		left.mergeFrom(middle);
+		left.mergeFrom(build(3, 60, 1000));
+		const right = build(2, 60, 1000);
+		right.mergeFrom(build(3, 60, 1000));
+		const outer = build(1, 60, 1000);
+		outer.mergeFrom(right);
+		expect(left.isIdenticalTo(outer)).to.equal(true);
+		expect(left.tightnessJ).to.equal(outer.tightnessJ);
+		expect(left.count).to.equal(180);
+		expect(left.mean).to.be.closeTo(Sparstogram.mergeAll([build(1, 60, 1000), middle, build(3, 60, 1000)], 1000).mean, 1e-9);
+	});
+
+	it('tells whether histograms are structurally identical', () => {
+		const s = build(4, 300, 30);
+		expect(s.isIdenticalTo(s)).to.equal(true);
+		expect(s.isIdenticalTo(Sparstogram.fromJSON(s.toJSON()))).to.equal(true);
+		expect(s.isIdenticalTo(build(4, 300, 30, {}))).to.equal(true);	// settings aren't compared
+		expect(s.isIdenticalTo(build(4, 300, 31))).to.equal(false);
+		expect(s.isIdenticalTo(build(4, 299, 30))).to.equal(false);
+		const other = build(4, 300, 30);
+		other.add(1e6);
+		other.remove(1e6);
+		expect(other.isIdenticalTo(s)).to.equal(false);	// the range was widened
+		const unmarked = new Sparstogram(30);
+		[...s.ascending()].forEach(c => unmarked.append(c));
+		expect(unmarked.isIdenticalTo(s)).to.equal(false);
+	});
+
+	it('can\'t be combined with a decay', () => {
+		expect(() => new Sparstogram(10, undefined, { deterministic: true, decay: { halfLife: 1 } })).to.throw(/deterministic/);
+		expect(new Sparstogram(10, undefined, { deterministic: true }).deterministic).to.equal(true);
+		expect(new Sparstogram(10).deterministic).to.equal(false);
+	});
+});
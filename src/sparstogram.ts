@@ -1,5 +1,10 @@
 import { BTree, Path } from "digitree";
 import { RingBuffer } from "./ring-buffer.js";
+import { ByteReader, ByteWriter } from "./codec.js";
+import { Moments, MomentsJSON } from "./moments.js";
+import { CountTree } from "./count-tree.js";
+import { CompressionPolicy, combinedVariance, curvatureAwarePolicy, pairLoss } from "./compression.js";
+import { MemoryPool, centroidsForBudget, estimateBytes } from "./memory.js";
 
 /** Represents a centroid in the histogram. */
 export interface Centroid {
@@ -9,11 +14,10 @@ export interface Centroid {
 }
 
 interface CentroidEntry extends Centroid {
-	// Curvature‑aware *score* for the pair (this centroid, prior centroid).
-	// score = baseLoss * (eps + localCurvature).  Matches the key stored in
-	// the _losses priority queue so that _losses.find(entry) succeeds.
-	// See getPriorScore/updateNextScore for computation details.
-	loss: number; // curvature-aware score to prior (Infinity for first)
+	// Compression policy *score* for the pair (prior centroid, this centroid).
+	// Matches the key stored in the _losses priority queue so that _losses.find(entry) succeeds.
+	// See scoreForPair for computation details.
+	loss: number; // policy score to prior (Infinity for first)
 }
 
 interface Loss {
@@ -21,6 +25,9 @@ interface Loss {
 	value: number;
 }
 
+/** A pair of adjacent centroids ready to merge: the paths of the later centroid's loss entry, the prior centroid and the later centroid */
+type MergeablePair = [Path<Loss, Loss>, Path<number, CentroidEntry>, Path<number, CentroidEntry>];
+
 /** Represents a peak in the histogram. */
 export interface Peak {
 	start: number;
@@ -55,6 +62,78 @@ export interface Criteria {
 	quantile?: number;
 }
 
+/** Closed ("[" or "]") or open ("(" or ")") lower and upper bounds of a range, as in interval notation */
+export type Bounds = "[]" | "[)" | "(]" | "()";
+
+/** Options for iterating the centroids in the histogram */
+export interface IterationOptions {
+	/** If true, the first and last centroids are trimmed so each yielded centroid's count is only its mass within the window between the start and end criteria;
+	 * centroids with no mass within the window are skipped.  Values and variances are not adjusted.
+	 */
+	trim?: boolean;
+}
+
+/** An accuracy target for a histogram that sizes its own centroid budget; give exactly one of the error measures.
+ * Centroids without variance (single values) have no error.
+ */
+export interface Accuracy {
+	/** Maximum rank error as a fraction of the count (e.g. 0.01): a centroid's rank error is half its count */
+	rankError?: number;
+	/** Maximum relative value error (e.g. 0.01): a centroid's value error is its standard deviation, relative to the magnitude of its value */
+	relativeError?: number;
+}
+
+/** Exponential time decay: each centroid's mass halves with every half-life of time advanced (see {@link Sparstogram.advanceTo}) */
+export interface Decay {
+	/** The time over which mass decays to half, in the units of the times given to advanceTo (e.g. milliseconds, for Date.now()) */
+	halfLife: number;
+	/** Centroids whose decayed mass falls below this are pruned (default 0.01) */
+	pruneBelow?: number;
+	/** The time at construction (default 0) */
+	start?: number;
+}
+
+/** Options for constructing a histogram */
+export interface SparstogramOptions {
+	/** Decides the order in which centroids are merged, and where merged centroids are placed (default {@link curvatureAwarePolicy}) */
+	policy?: CompressionPolicy;
+	/** If given, the histogram manages {@link Sparstogram.maxCentroids} itself to meet this accuracy target (see {@link Sparstogram.accuracy}) */
+	accuracy?: Accuracy;
+	/** A memory budget in bytes, limiting maxCentroids to the centroids it allows (see {@link estimateBytes}),
+	 * or a pool shared with other histograms, of which maxCentroids is this histogram's allowance (see {@link MemoryPool}).
+	 * Can't be combined with an accuracy target.
+	 */
+	memoryBudget?: number | MemoryPool;
+	/** If given, masses decay exponentially as time is advanced, so the distribution leans toward recent values (see {@link Sparstogram.advanceTo}) */
+	decay?: Decay;
+	/** If true, merges are reproducible (see {@link Sparstogram.deterministic}).  Can't be combined with a decay. */
+	deterministic?: boolean;
+	/** Called as compression merges each adjacent pair of centroids (a, b) into one, such as to follow which centroid holds a value once added.
+	 * The centroids are copies; the histogram must not be modified from within the callback.
+	 */
+	onMerge?: (a: Centroid, b: Centroid, merged: Centroid) => void;
+}
+
+/** Plain-data form of a histogram, as produced by {@link Sparstogram.toJSON} and accepted by {@link Sparstogram.fromJSON} */
+export interface SparstogramJSON {
+	/** The maximum number of centroids */
+	maxCentroids: number;
+	/** The quantiles given at construction, if any */
+	markers?: number[];
+	/** All centroids, in ascending value order */
+	centroids: Centroid[];
+	/** The position of each marker (parallel to markers); null if the marker has not been positioned yet */
+	markerPositions?: (Marker | null)[];
+	/** The exact running moments; if omitted, they are derived from the centroids */
+	moments?: MomentsJSON;
+	/** The least value observed (omitted if empty); if omitted, it is derived from the centroids */
+	min?: number;
+	/** The greatest value observed (omitted if empty); if omitted, it is derived from the centroids */
+	max?: number;
+	/** The time as of the snapshot, for a decaying histogram; if omitted, the decay's start is used */
+	time?: number;
+}
+
 /** A histogram that maintains a complete or sparse approximation of the data frequency.
  * The representation will be complete if the number of distinct values is less than or equal to the maxCentroids.
  * Otherwise, the values will be compressed to a smaller number of centroids in a way that minimizes the loss.
@@ -65,7 +144,9 @@ export interface Criteria {
  */
 export class Sparstogram {
 	/** The centroids ordered by value */
-	private _centroids = new BTree<number, CentroidEntry>((e: CentroidEntry) => e.value, (a: number, b: number) => a - b);
+	private _centroids = centroidIndex();
+	/** Centroid counts by value, with subtree totals for logarithmic rank lookups; kept in step with _centroids */
+	private _counts = new CountTree();
 	private _centroidCount = 0;
 	private _count = 0;
 	/** Centroids ordered by loss between the centroid and prior (in value order).  Ordered by (loss ascending, value) */
@@ -77,13 +158,33 @@ export class Sparstogram {
 	// References (context/inspiration):
 	// 	- "k‑point discrete approximations minimizing KL / W1" (DAUD‑style)
 	// 	- Divide‑and‑Conquer quantization with W1 error guarantees (merge‑stable)
-	private _losses = new BTree<Loss, Loss>((e: Loss) => e, (a: Loss, b: Loss) => a.loss === b.loss ? a.value - b.value : a.loss - b.loss);
+	private _losses = lossIndex();
 	private _maxCentroids!: number;
 	private _markers: (Marker | undefined)[] | undefined;
 
 	// Cheap global‑error proxy; correlates with W1 drift: sum_i min(w_i,w_{i+1})*|Δx_i|
 	private _tightnessJ = 0;
 
+	// Exact moments of everything added (of the decayed masses, with a decay); unaffected by compression
+	private _moments = new Moments();
+
+	private _policy: CompressionPolicy;
+	private _accuracy: Accuracy | undefined;
+	private _fittedCentroids = 0;	// centroids after the last full fit to the accuracy target (see fitBudget)
+	private _pool: MemoryPool | undefined;
+	private _budgetCentroids = Infinity;	// centroids a memory budget in bytes allows
+	private _deterministic: boolean;
+	private _onMerge: SparstogramOptions["onMerge"];
+
+	// Decay: stored masses (centroids, counts, rank markers and J) times _scale are the decayed masses; moments are decayed eagerly
+	private _decay: Required<Decay> | undefined;
+	private _time = 0;
+	private _scale = 1;
+
+	// Observed range; interpolated results are clamped to this
+	private _min = Infinity;
+	private _max = -Infinity;
+
 	constructor(
 		/** The initial maximum number of centroids to store.
 		 * This must be at least 1.
@@ -94,6 +195,8 @@ export class Sparstogram {
 		 * These don't have to be in order, but they must be between 0 and 1.
 		 * The quantiles will be maintained with each new value, and can be retrieved with atMarker. */
 		public markers?: number[],
+		/** Optional settings, such as the compression policy */
+		options: SparstogramOptions = {},
 	) {
 		// Ensure quantiles are all between 0-1
 		if (markers) {
@@ -105,7 +208,65 @@ export class Sparstogram {
 			this._markers = markers.map(() => undefined);
 		}
 		Object.freeze(markers);
-		this.maxCentroids = Math.floor(maxCentroids);
+		this._policy = options.policy ?? curvatureAwarePolicy;
+		this._onMerge = options.onMerge;
+		if (options.decay) {
+			if (options.deterministic) {
+				throw new Error("A deterministic histogram can't decay");
+			}
+			this._decay = validateDecay(options.decay);
+			this._time = this._decay.start;
+		}
+		this._deterministic = options.deterministic ?? false;
+		if (options.accuracy) {
+			if (options.memoryBudget !== undefined) {
+				throw new Error("An accuracy target and a memory budget can't both be given");
+			}
+			this._accuracy = validateAccuracy(options.accuracy);
+		}
+		if (options.memoryBudget instanceof MemoryPool) {
+			if (!(maxCentroids >= 1)) {
+				throw new Error("maxCentroids must be at least 1");
+			}
+			this._pool = options.memoryBudget;
+			this._maxCentroids = this._pool.join(this, Math.floor(maxCentroids), allowance => {
+				this._maxCentroids = allowance;
+				while (this._centroidCount > this._maxCentroids) {
+					this.compressOneBucket();
+				}
+			});
+		} else {
+			if (options.memoryBudget !== undefined) {
+				this._budgetCentroids = centroidsForBudget(options.memoryBudget);
+			}
+			this.maxCentroids = maxCentroids;
+		}
+	}
+
+	/** The compression policy deciding the merge order and placement (see {@link SparstogramOptions}) */
+	get policy(): CompressionPolicy {
+		return this._policy;
+	}
+
+	/** The accuracy target, if the histogram was constructed with one.
+	 * With a target, after each addition the histogram merges pairs (in the policy's order) for as long as the merged centroid would stay
+	 * within the target, then sets {@link maxCentroids} to the centroids that remain: the budget shrinks as the count grows (for rank error),
+	 * and grows when new values can't be merged within the target.  Setting maxCentroids still compresses to it, possibly beyond the target,
+	 * and the budget is refitted on the next addition.  Removals can't restore accuracy lost to merging; see {@link errorBound} for the bound achieved.
+	 */
+	get accuracy(): Accuracy | undefined {
+		return this._accuracy ? { ...this._accuracy } : undefined;
+	}
+
+	/** The accuracy currently achieved: the largest error of any centroid, in the terms of the {@link accuracy} target
+	 * (or as a rank error fraction if there is none).  This is linear in the number of centroids.
+	 */
+	get errorBound(): number {
+		let bound = 0;
+		for (const path of this._centroids.ascending(this._centroids.first())) {
+			bound = Math.max(bound, this.centroidError(this._centroids.at(path)!));
+		}
+		return bound;
 	}
 
 	/** The current maximum number of centroids to store before compression. */
@@ -113,20 +274,50 @@ export class Sparstogram {
 		return this._maxCentroids;
 	}
 
-	/** @throws {Error} If value is less than 1 */
+	/** With a memory budget, this is limited to the centroids the budget allows; with a memory pool, growth is limited to the pool's free room.
+	 * @throws {Error} If value is less than 1
+	 */
 	set maxCentroids(value: number) {
 		if (value < 1) {
 			throw new Error("maxCentroids must be at least 1");
 		}
-		this._maxCentroids = Math.floor(value);
+		this._maxCentroids = this._pool ? this._pool.allot(this, Math.floor(value)) : Math.min(Math.floor(value), this._budgetCentroids);
 		while (this._centroidCount > this._maxCentroids) {
 			this.compressOneBucket();
 		}
 	}
 
+	/** Whether merges are reproducible.  If so, {@link mergeFrom} rebuilds the histogram from the union of both histograms' centroids,
+	 * as {@link mergeAll} does, rather than inserting the other's centroids into this one's indexes; so the order in which pairs are merged,
+	 * and the cached scores and tightness J, depend only on the centroids, not on the order in which either histogram was built.
+	 * Ties are broken canonically: centroids at the same value and the running moments are combined in order of their fields,
+	 * pairs of equal score are merged in value order, and placement is left to the policy, which sees only the pair.
+	 * Merging histograms with the same settings is then commutative (a.mergeFrom(b) is {@link isIdenticalTo} b.mergeFrom(a)).
+	 * It is also associative while the inputs are exact (integer counts, and no merged centroids) and no merge compresses,
+	 * since the moments are then derived from the merged centroids alone.
+	 */
+	get deterministic(): boolean {
+		return this._deterministic;
+	}
+
+	/** The decay, if the histogram was constructed with one */
+	get decay(): Decay | undefined {
+		return this._decay ? { ...this._decay } : undefined;
+	}
+
+	/** The time to which the histogram's masses are decayed (see {@link advanceTo}); 0 if there is no decay */
+	get time(): number {
+		return this._time;
+	}
+
+	/** Estimated heap footprint of the histogram, in bytes (see {@link estimateBytes}) */
+	get estimatedBytes(): number {
+		return estimateBytes(this._centroidCount);
+	}
+
 	/** The current total count accumulated in the histogram (sum of counts of all values) */
 	get count() {
-		return this._count;
+		return this._count * this._scale;
 	}
 
 	/**
@@ -139,7 +330,37 @@ export class Sparstogram {
 	 *   relative monitoring within the same dataset/scale (e.g., tracking compression drift), not as an
 	 *   absolute error bound.
 	 */
-	get tightnessJ() { return this._tightnessJ; }
+	get tightnessJ() { return this._tightnessJ * this._scale; }
+
+	/** The exact sum of all values added (count-weighted) */
+	get sum() { return this._moments.sum; }
+
+	/** The exact mean of all values added; NaN if the histogram is empty */
+	get mean() { return this._count > 0 ? this._moments.mean : NaN; }
+
+	/** The exact sample variance of all values added (n - 1 denominator, like centroid variance); 0 for fewer than two values */
+	get variance() { return this._moments.variance; }
+
+	/** The exact sample standard deviation of all values added */
+	get stdDev() { return Math.sqrt(this._moments.variance); }
+
+	/** The sample skewness (g1) of all values added; NaN if all values are equal or the histogram is empty
+	 * @remarks Exact for values added individually; appended or merged centroids are treated as symmetric spreads of their variance
+	 */
+	get skewness() { return this._moments.skewness; }
+
+	/** The sample excess kurtosis (g2, 0 for a normal distribution) of all values added; NaN if all values are equal or the histogram is empty
+	 * @remarks Exact for values added individually; appended or merged centroids are treated as normal spreads of their variance
+	 */
+	get kurtosis() { return this._moments.kurtosis; }
+
+	/** The least value added (Infinity if empty).
+	 * For appended or merged centroids, this is the least value inferred from the centroid (its value less one standard deviation, if spread). */
+	get min() { return this._min; }
+
+	/** The greatest value added (-Infinity if empty).
+	 * For appended or merged centroids, this is the greatest value inferred from the centroid (its value plus one standard deviation, if spread). */
+	get max() { return this._max; }
 
 	/** The current number of distinct values (centroids) in the histogram.
 	 * This may be fewer than the number of distinct values added if `maxCentroids` is less than the number of distinct values added. */
@@ -149,18 +370,86 @@ export class Sparstogram {
 
 	/** Adds a value to the histogram.
 	 * If you want to dynamically limit loss, monitor the returned loss and adjust maxCentroids accordingly.
+	 * @param value The value to add
+	 * @param weight The mass of the observation (default 1) - e.g. the number of pre-aggregated samples, or a fractional sampling weight
 	 * @returns The loss incurred by compression, if any
+	 * @throws {Error} If the value is not finite, or the weight is not a positive finite number
 	 */
-	add(value: number): number {
+	add(value: number, weight: number = 1): number {
 		if (!Number.isFinite(value)) {
 			throw new Error("Value must be a finite number (NaN and Infinity are not supported)");
 		}
-		++this._count;
-		this.insertOrIncrementBucket({ value, variance: 0, count: 1 });
+		if (!(Number.isFinite(weight) && weight > 0)) {
+			throw new Error("Weight must be a positive finite number");
+		}
+		const centroid = { value, variance: 0, count: weight };
+		this._moments.addCentroid(centroid);
+		this.extendRange(centroid);
+		this._count += weight / this._scale;
+		this.insertOrIncrementBucket(this.stored(centroid));
+		const fittedLoss = this._accuracy ? this.fitBudget() : 0;
+		this.claimRoom();
 		if (this._centroidCount > this._maxCentroids) {
 			return this.compressOneBucket();
 		}
-		return 0;	// No loss if new bucket is inserted
+		return fittedLoss;	// No loss if new bucket is inserted, unless merged within the accuracy target
+	}
+
+	/** Adds many values to the histogram, as though each were {@link add}ed with a weight of 1, such as a batch of high-rate telemetry.
+	 * The values are copied into an insertion buffer, which is taken in chunks of about maxCentroids values.  Each chunk is sorted and collapsed into one centroid per distinct value,
+	 * which are merged with the existing centroids in a single linear pass; the indexes are then rebuilt from the merged centroids, and compressed as for {@link append}.
+	 * A chunk with few distinct values relative to the centroids is inserted in place instead.
+	 * Because compression is deferred to the end of each chunk, the centroids can differ from those of adding the values one at a time,
+	 * but the markers and {@link tightnessJ} are the same as they would be for the resulting centroids.
+	 * @param values The values to add, in any order (e.g. a Float64Array)
+	 * @returns The maximal loss incurred by compression, if any
+	 * @throws {Error} If any value is not finite, in which case none are added
+	 */
+	addMany(values: ArrayLike<number>): number {
+		const buffer = Float64Array.from(values);
+		if (!buffer.every(Number.isFinite)) {
+			throw new Error("Value must be a finite number (NaN and Infinity are not supported)");
+		}
+		let loss = 0;
+		for (let start = 0; start < buffer.length;) {
+			const end = Math.min(buffer.length, start + Math.max(this._maxCentroids, MIN_BUFFER_CHUNK));
+			loss = Math.max(loss, this.addBuffered(buffer.subarray(start, end)));
+			start = end;
+		}
+		return loss;
+	}
+
+	/** Adds a chunk of the insertion buffer (see {@link addMany}), sorting it in place
+	 * @returns The maximal loss incurred by compression, if any
+	 */
+	private addBuffered(chunk: Float64Array): number {
+		chunk.sort();
+		const batch: Centroid[] = [];
+		for (let i = 0; i < chunk.length;) {
+			let end = i + 1;
+			while (end < chunk.length && chunk[end] === chunk[i]) ++end;
+			const centroid = { value: chunk[i], variance: 0, count: end - i };
+			this._moments.addCentroid(centroid);
+			batch.push(this.stored(centroid));
+			i = end;
+		}
+		const inPlace = batch.length * IN_PLACE_BATCH_RATIO < this._centroidCount;
+		for (const centroid of batch) {
+			this._count += centroid.count;
+			if (inPlace) this.insertOrIncrementBucket(centroid);
+		}
+		this.extendRange(batch[0]);
+		this.extendRange(batch[batch.length - 1]);
+		if (!inPlace) {
+			this.rebuildIndexes(mergeAscending(this.storedCentroids(), batch));
+			this.positionMarkers();
+		}
+		let loss = this._accuracy ? this.fitBudget() : 0;
+		this.claimRoom();
+		while (this._centroidCount > this._maxCentroids) {
+			loss = Math.max(loss, this.compressOneBucket());
+		}
+		return loss;
 	}
 
 	/** Adds one or more centroids to the histogram.
@@ -168,24 +457,19 @@ export class Sparstogram {
 	 * If you want to reduce memory usage, or monitor loss, use an iterator with sequential calls to this rather than this method.
 	 * @returns The maximal loss incurred by compression, if any
 	 * @throws {Error} If any centroid value is not finite (NaN or Infinity)
-	 * @throws {Error} If any centroid count is less than 1
+	 * @throws {Error} If any centroid count is not a positive finite number
 	 * @throws {Error} If any centroid variance is negative
 	 */
 	append(...centroids: Centroid[]): number {
 		for (const centroid of centroids) {
-			if (!Number.isFinite(centroid.value)) {
-				throw new Error("Centroid value must be a finite number");
-			}
-			if (centroid.count < 1) {
-				throw new Error("Centroid count must be at least 1");
-			}
-			if (centroid.variance < 0) {
-				throw new Error("Centroid variance must be at least 0");
-			}
-			this._count += centroid.count;
-			this.insertOrIncrementBucket(centroid);
+			validateCentroid(centroid);
+			this._moments.addCentroid(centroid);
+			this.extendRange(centroid);
+			this._count += centroid.count / this._scale;
+			this.insertOrIncrementBucket(this.stored(centroid));
 		}
-		let loss = 0;
+		let loss = this._accuracy ? this.fitBudget() : 0;
+		this.claimRoom();
 		while (this._centroidCount > this._maxCentroids) {
 			loss = this.compressOneBucket();
 		}
@@ -200,10 +484,21 @@ export class Sparstogram {
 		if (other === this) {
 			throw new Error("Cannot merge a histogram into itself");
 		}
-		this._count += other.count;
+		if (this._deterministic) {
+			this.loadMerged([this, other]);
+			return;
+		}
+		this._count += other.count / this._scale;
+		this._moments.merge(other._moments);
+		this._min = Math.min(this._min, other._min);
+		this._max = Math.max(this._max, other._max);
 		for (const centroid of other.ascending()) {
-			this.insertOrIncrementBucket(centroid);
+			this.insertOrIncrementBucket(this.stored(centroid));
 		}
+		if (this._accuracy) {
+			this.fitBudget();
+		}
+		this.claimRoom();
 		const batchSize = Math.max(1, Math.ceil(this._maxCentroids / 4));
 		while (this._centroidCount > this._maxCentroids) {
 			for (let i = 0; i < batchSize && this._centroidCount > this._maxCentroids; ++i) {
@@ -212,38 +507,135 @@ export class Sparstogram {
 		}
 	}
 
+	/** Merges many histograms into a new one, such as to reduce the histograms of many shards.
+	 * Rather than compressing after each of a series of {@link mergeFrom}s, the histograms' centroids are combined in one k-way merge of their
+	 * ascending streams, and compressed once.  Centroids at the same value, and the histograms' running moments, are combined in a canonical order,
+	 * so the result is the same whatever the order of the histograms.
+	 * @param histograms The histograms to merge; they are not modified
+	 * @param maxCentroids The maximum number of centroids of the result
+	 * @param markers Optional quantiles to maintain in the result (see the constructor)
+	 * @param options Optional settings for the result (see the constructor)
+	 */
+	static mergeAll(histograms: Iterable<Sparstogram>, maxCentroids: number, markers?: number[], options?: SparstogramOptions): Sparstogram {
+		const result = new Sparstogram(maxCentroids, markers, options);
+		result.loadMerged([...histograms]);
+		return result;
+	}
+
+	/** Whether this histogram is structurally identical to another: the same maxCentroids, centroids (value, variance and count), running moments,
+	 * range and markers (quantiles and positions), compared exactly.  Settings, such as the policy, are not compared.
+	 */
+	isIdenticalTo(other: Sparstogram): boolean {
+		if (this._maxCentroids !== other._maxCentroids || this._centroidCount !== other._centroidCount || this._count !== other._count
+			|| this._scale !== other._scale || this._time !== other._time || this._min !== other._min || this._max !== other._max
+			|| compareMoments(this._moments, other._moments) !== 0 || !sameCentroids(this.storedCentroids(), other.storedCentroids())) {
+			return false;
+		}
+		const markers = this.markers ?? [];
+		const otherMarkers = other.markers ?? [];
+		return markers.length === otherMarkers.length && markers.every((q, i) => {
+			const [a, b] = [this._markers![i], other._markers![i]];
+			return q === otherMarkers[i] && (a && b
+				? a.rank === b.rank && a.offset === b.offset && a.centroid.value === b.centroid.value
+				: a === b);
+		});
+	}
+
+	/** Removes mass from the histogram, such as to retract a previously added value.
+	 * The mass is taken from the given centroid if any, such as the one the value was added to (see {@link SparstogramOptions.onMerge}),
+	 * otherwise from the centroid nearest the value; then from the next nearest, and so on until the count is removed.
+	 * Centroids keep their values; their variance is reduced by the removed mass's squared deviation, and they are dropped once empty.
+	 * The running moments are updated as though the value itself is removed.  The observed range is only narrowed when an end centroid is dropped,
+	 * in which case it is inferred from the new end centroid.
+	 * @param value The value to remove
+	 * @param count The mass to remove (default 1, may be fractional)
+	 * @param from The value of the centroid to take the mass from first (default the centroid nearest the value); ignored if there is no centroid at it
+	 * @returns The approximation error: the sum of the removed mass times its distance from the centroid(s) it was taken from (0 if the value had its own centroid)
+	 * @throws {Error} If the value is not finite, the count is not a positive finite number, or the count exceeds the histogram's count
+	 */
+	remove(value: number, count: number = 1, from?: number): number {
+		if (!Number.isFinite(value)) {
+			throw new Error("Value must be a finite number (NaN and Infinity are not supported)");
+		}
+		if (!(Number.isFinite(count) && count > 0)) {
+			throw new Error("Count must be a positive finite number");
+		}
+		if (count > this.count) {
+			throw new Error("Cannot remove more than the histogram's count");
+		}
+		this._moments.removeCentroid({ value, variance: 0, count });
+		let error = 0;
+		let remaining = count / this._scale;
+		let given = from !== undefined ? this._centroids.find(from) : undefined;
+		while (remaining > 0 && this._centroidCount > 0) {
+			const path = given?.on ? given : this.nearestPath(value);
+			given = undefined;
+			const entry = this._centroids.at(path)!;
+			const taken = Math.min(remaining, entry.count);
+			error += taken * Math.abs(value - entry.value);
+			remaining -= taken;
+			this._count -= taken;
+			this.reduceBucket(path, value, taken);
+		}
+		if (this._centroidCount === 0) {
+			this._count = 0;
+			this._min = Infinity;
+			this._max = -Infinity;
+			this._markers = this._markers?.map(() => undefined);
+		}
+		return error * this._scale;
+	}
+
+	/** Advances the time of a decaying histogram, decaying every mass by half for each half-life elapsed.
+	 * The decay is applied lazily, through a scale factor on the stored masses, so advancing costs O(1);
+	 * once the scale has halved, it is folded into the centroids and any whose mass has fallen below the decay's pruneBelow are pruned,
+	 * so a centroid may be pruned up to one half-life after its mass falls below the threshold.
+	 * The running moments (and so the sum, mean, and variance) are of the decayed masses.  Until the scale is folded, ranks (such as those of quantiles and markers)
+	 * are rounded to whole units of the stored masses rather than of the decayed ones.
+	 * @param time The new time, in the units of the half-life (e.g. a tick count, or Date.now())
+	 * @throws {Error} If the histogram has no decay, or the time is not finite or is before the current {@link time}
+	 */
+	advanceTo(time: number) {
+		if (!this._decay) {
+			throw new Error("Histogram was not constructed with a decay");
+		}
+		if (!(Number.isFinite(time) && time >= this._time)) {
+			throw new Error("Time must be finite, and not before the histogram's time");
+		}
+		const factor = Math.pow(2, (this._time - time) / this._decay.halfLife);
+		this._time = time;
+		this._scale *= factor;
+		this._moments.scale(factor);
+		if (this._scale <= 0.5) {
+			this.foldDecay();
+		}
+	}
+
 	/** Returns the rank of a value in the histogram - count of all values less than or equal to the given value
 	 * This method interpolates the rank between and beyond centroids based on the normal distribution of each centroid.
+	 * Below the observed {@link min} the rank is 0, and from the observed {@link max} on it is the total count.
 	 * @param value The value to find the rank for.
 	 * @returns The rank of the value in the histogram
 	 */
 	rankAt(value: number): number {
-		let rank = 0;
-		let path = this._centroids.find(value);
-		const prior = this._centroids.prior(path);
-		if (path.on) {
-			rank = rankAtMean(this._centroids.at(path)!);
-			path = prior;
-		}
-		else {
-			const next = this._centroids.next(path);
-			if (next.on && prior.on) {
-				rank = interpolateRank(value, this._centroids.at(prior)!, this._centroids.at(next)!);
-			}
-			else if (next.on) {
-				return inferRank(value, this._centroids.at(next)!);
-			}
-			else if (prior.on) {
-				rank = inferRank(value, this._centroids.at(prior)!);
-			}
-			path = this._centroids.prior(prior);
-		}
-		while (path.on) {
-			const entry = this._centroids.at(path)!;
-			rank += entry.count;
-			path = this._centroids.prior(path);
-		}
-		return rank;
+		const path = this._centroids.find(value);
+		const prior = path.on ? undefined : this._centroids.at(this._centroids.prior(path));
+		const current = path.on ? this._centroids.at(path) : this._centroids.at(this._centroids.next(path));
+		return this.rankFromNeighbors(value,
+			prior, prior ? this._counts.before(prior.value) : 0,
+			current, current ? this._counts.before(current.value) : 0) * this._scale;
+	}
+
+	/** Returns the rank of each of the given values, as {@link rankAt} would, in a single ascending sweep of the centroids
+	 * @param values The values to find the ranks for, in any order
+	 * @returns The ranks, in the order of the given values
+	 */
+	rankAtMany(values: number[]): number[] {
+		const ranks = new Array<number>(values.length);
+		this.sweepValues(values, (i, prior, priorBefore, current, currentBefore) => {
+			ranks[i] = this.rankFromNeighbors(values[i], prior, priorBefore, current, currentBefore) * this._scale;
+		});
+		return ranks;
 	}
 
 	/** Returns the centroid at a given rank in the histogram (count / 2 = median)
@@ -253,53 +645,83 @@ export class Sparstogram {
 	 * @throws {Error} If rank is out of range (exceeds total count)
 	 */
 	valueAt(rank: number): Quantile {
+		return this.decayedQuantile(this.quantileAtRank(rank / this._scale));
+	}
+
+	/** {@link valueAt}, in stored masses (see {@link advanceTo}) */
+	private quantileAtRank(rank: number): Quantile {
 		if (rank === 0) {
 			throw new Error("Rank must be non-zero (positive for from-start, negative for from-end)");
 		}
-		let remainingRank = Math.abs(rank);
-		for (const path of rank >= 0
-			? this._centroids.ascending(this._centroids.first())
-			: this._centroids.descending(this._centroids.last())) {
-			const entry = this._centroids.at(path)!;
-			if (remainingRank <= entry.count) {
-				const positiveRank = rank >= 0 ? rank : (this._count + rank + 1);
-				const offset = rank >= 0 ? remainingRank - 1 : (entry.count - remainingRank);
-				const { loss: _, ...centroid } = entry;
-				return {
-					rank: positiveRank,
-					centroid,
-					offset,
-					value: inferValueFromOffset(offset, entry)
-				};
-			}
-			remainingRank -= entry.count;
+		const magnitude = Math.abs(rank);
+		// From the end, select the centroid holding the mass just past the complementary rank from the start
+		const selection = magnitude <= this._count
+			? rank > 0 ? this._counts.select(magnitude) : this._counts.select(this._count - magnitude, true)
+			: undefined;
+		if (!selection) {
+			throw new Error("Rank out of range");
 		}
-		throw new Error("Rank out of range");
+		return this.quantileInEntry(rank, this._centroids.get(selection.key)!, selection.before);
 	}
 
 	/** Returns the interpolated count of values at a given value in the histogram
 	 * @param value The value to find the count for
-	 * @returns The count of the value in the histogram (interpolated, but in whole counts)
+	 * @returns The count of the value in the histogram (interpolated, but in whole counts); 0 outside the observed range
 	 */
 	countAt(value: number): number {
 		const path = this._centroids.find(value);
-		if (path.on) {
-			return rankAtMean(this._centroids.at(path)!);
-		}
-		else {
-			const next = this._centroids.next(path);
-			const prior = this._centroids.prior(path);
-			if (next.on && prior.on) {
-				return interpolateCount(value, this._centroids.at(prior)!, this._centroids.at(next)!);
-			}
-			else if (next.on) {
-				return inferCount(value, this._centroids.at(next)!);
-			}
-			else if (prior.on) {
-				return inferCount(value, this._centroids.at(prior)!);
-			}
-			return 0;	// no data - count is 0 everywhere
-		}
+		const prior = path.on ? undefined : this._centroids.at(this._centroids.prior(path));
+		const current = path.on ? this._centroids.at(path) : this._centroids.at(this._centroids.next(path));
+		return this.countFromNeighbors(value, prior, current) * this._scale;
+	}
+
+	/** Returns the interpolated count at each of the given values, as {@link countAt} would, in a single ascending sweep of the centroids
+	 * @param values The values to find the counts for, in any order
+	 * @returns The counts, in the order of the given values
+	 */
+	countAtMany(values: number[]): number[] {
+		const counts = new Array<number>(values.length);
+		this.sweepValues(values, (i, prior, _priorBefore, current) => {
+			counts[i] = this.countFromNeighbors(values[i], prior, current) * this._scale;
+		});
+		return counts;
+	}
+
+	/** Returns the count of values between two values, interpolated at each edge as for {@link rankAt}
+	 * A centroid with no variance sitting exactly on an edge is a point mass, counted or not according to whether that bound is closed.
+	 * @param lo The lower bound
+	 * @param hi The upper bound
+	 * @param bounds Whether each bound is closed (inclusive) or open (exclusive), as in interval notation (default "[]")
+	 * @returns The count of values in the range (interpolated, but in whole counts at each edge)
+	 * @throws {Error} If lo exceeds hi, or the bounds are not one of "[]", "[)", "(]" or "()"
+	 */
+	countBetween(lo: number, hi: number, bounds: Bounds = "[]"): number {
+		return this.band(lo, hi, bounds).count * this._scale;
+	}
+
+	/** Returns the sum of the values between two values (see {@link countBetween}).
+	 * Whole centroids contribute their value times their count; the partial mass at each edge contributes the mean of the
+	 * edge centroids' normal distributions at or below that edge.
+	 * @param lo The lower bound
+	 * @param hi The upper bound
+	 * @param bounds Whether each bound is closed (inclusive) or open (exclusive), as in interval notation (default "[]")
+	 * @returns The sum of the values in the range; 0 if the range is empty
+	 * @throws {Error} If lo exceeds hi, or the bounds are not one of "[]", "[)", "(]" or "()"
+	 */
+	sumBetween(lo: number, hi: number, bounds: Bounds = "[]"): number {
+		return this.band(lo, hi, bounds).sum * this._scale;
+	}
+
+	/** Returns the mean of the values between two values: {@link sumBetween} / {@link countBetween}
+	 * @param lo The lower bound
+	 * @param hi The upper bound
+	 * @param bounds Whether each bound is closed (inclusive) or open (exclusive), as in interval notation (default "[]")
+	 * @returns The mean of the values in the range; NaN if the range is empty
+	 * @throws {Error} If lo exceeds hi, or the bounds are not one of "[]", "[)", "(]" or "()"
+	 */
+	meanBetween(lo: number, hi: number, bounds: Bounds = "[]"): number {
+		const { count, sum } = this.band(lo, hi, bounds);
+		return count > 0 ? sum / count : NaN;
 	}
 
 	/** Returns the value at a given quantile in the histogram (0.5 = median)
@@ -307,9 +729,41 @@ export class Sparstogram {
 	 * @returns The centroid at the given quantile in the histogram
 	 */
 	quantileAt(quantile: number): Quantile {
-		const rank = Math.min(this._count, Math.max(1, Math.round(quantile * this._count)));
-		const pos = (quantile <= 0.5 ? rank : -(this._count - rank + 1)) // Search from the closest end
-		return this.valueAt(pos);
+		return this.decayedQuantile(this.quantileAtRank(this.quantileRank(quantile)));
+	}
+
+	/** Returns the values at each of the given quantiles, as {@link quantileAt} would, in a single ascending sweep of the centroids
+	 * @param quantiles The quantiles (0-1) to find the values for, in any order (e.g. [0.5, 0.9, 0.95, 0.99, 0.999])
+	 * @returns The quantile information, in the order of the given quantiles
+	 * @throws {Error} If the histogram is empty and any quantiles are requested
+	 */
+	quantilesAt(quantiles: number[]): Quantile[] {
+		if (this._count === 0) {
+			return quantiles.map(quantile => this.quantileAt(quantile));	// throws, as for quantileAt
+		}
+		// Each target is met by the first centroid whose cumulative count reaches (or, from the end, exceeds) its threshold
+		const targets = quantiles.map((quantile, index) => {
+			const rank = this.quantileRank(quantile);
+			return { index, rank, threshold: rank > 0 ? rank : this._count + rank, exclusive: rank < 0 };
+		}).sort((a, b) => a.threshold - b.threshold || Number(a.exclusive) - Number(b.exclusive));
+		const results = new Array<Quantile>(quantiles.length);
+		let t = 0;
+		let before = 0;
+		let last: CentroidEntry | undefined;
+		for (const path of this._centroids.ascending(this._centroids.first())) {
+			last = this._centroids.at(path)!;
+			const cumulative = before + last.count;
+			for (; t < targets.length && (targets[t].exclusive ? cumulative > targets[t].threshold : cumulative >= targets[t].threshold); ++t) {
+				results[targets[t].index] = this.quantileInEntry(targets[t].rank, last, before);
+			}
+			if (t === targets.length) break;
+			before = cumulative;
+		}
+		// Only reachable through rounding of fractional counts; such targets fall in the last centroid
+		for (; t < targets.length; ++t) {
+			results[targets[t].index] = this.quantileInEntry(targets[t].rank, last!, before - last!.count);
+		}
+		return results.map(result => this.decayedQuantile(result));
 	}
 
 	/** Returns the quantile marker at a given index, as given by markers at construction (0 = median, 1 = lower quartile, 2 = upper quartile, etc.)
@@ -318,11 +772,16 @@ export class Sparstogram {
 	 * @throws {Error} If the index does not correspond to a marker given to the constructor
 	 */
 	markerAt(index: number): Quantile {
+		return this.decayedQuantile(this.storedMarker(index));
+	}
+
+	/** {@link markerAt}, in stored masses (see {@link advanceTo}) */
+	private storedMarker(index: number): Quantile {
 		if (this._markers) {
 			const marker = this._markers[index];
 			if (marker) {
 				const { loss: _, ...centroid } = marker.centroid as CentroidEntry;
-				return { ...marker, centroid, value: inferValueFromOffset(marker.offset, marker.centroid) };
+				return { ...marker, centroid, value: this.clampToRange(inferValueFromOffset(marker.offset, marker.centroid)) };
 			}
 		}
 		throw new Error("Invalid marker - not in list of markers given to constructor");
@@ -337,6 +796,7 @@ export class Sparstogram {
 	 */
 	*peaks(smoothing: number = 3): IterableIterator<Peak> {
 		if (smoothing < 1) return;
+		const scale = this._scale;
 		const left = new RingBuffer<Centroid>(smoothing + 1);
 		const right = new RingBuffer<Centroid>(smoothing + 1);
 		let peak: Peak | undefined;
@@ -367,94 +827,270 @@ export class Sparstogram {
 		}
 
 		function updatePeak(c: Centroid, existing: Peak | undefined): Peak | undefined {
+			const count = c.count * scale;
 			return existing
-				? { start: existing.start, end: c.value, max: Math.max(existing.max, c.count), min: Math.min(existing.min, c.count), sum: existing.sum + c.count }
-				: { start: c.value, end: c.value, max: c.count, min: c.count, sum: c.count };
+				? { start: existing.start, end: c.value, max: Math.max(existing.max, count), min: Math.min(existing.min, count), sum: existing.sum + count }
+				: { start: c.value, end: c.value, max: count, min: count, sum: count };
 		}
 	}
 
 	/** Returns an iterator for the centroids in the histogram in ascending order
-	 * @param criteria If specified, the iterator will start at the centroid at the given marker index or value; otherwise it will start at the first centroid
-	 * @remarks Mutating the histogram during iteration (via {@link add}, {@link append}, {@link mergeFrom}, or the {@link maxCentroids} setter) invalidates the iterator and may produce incorrect results or errors.
+	 * @param criteria If specified, the iterator will start at the centroid at the given marker index, value or quantile; otherwise it will start at the first centroid
+	 * @param end If specified, the iterator will stop after the centroid at the given marker index or quantile, or the last centroid at or below the given value; otherwise it will run to the last centroid
+	 * @param options If trim is set, the window runs from the rank of the start criteria to that of the end, and each centroid's count is only its mass within the window (see {@link IterationOptions})
+	 * @remarks Mutating the histogram during iteration (via {@link add}, {@link remove}, {@link append}, {@link mergeFrom}, or the {@link maxCentroids} setter) invalidates the iterator and may produce incorrect results or errors.
 	 */
-	*ascending(criteria?: Criteria): IterableIterator<Centroid> {
-		const startPath = this.criteriaToPath(criteria) ?? this._centroids.first();
+	*ascending(criteria?: Criteria, end?: Criteria, options: IterationOptions = {}): IterableIterator<Centroid> {
+		if (options.trim) {
+			yield* this.trimmedAscending(criteria, end);
+			return;
+		}
+		const startPath = this.criteriaToPath(criteria, true) ?? this._centroids.first();
+		const endValue = end ? this.criteriaValue(end) : Infinity;
 		for (const path of this._centroids.ascending(startPath)) {
 			const { loss: _, ...centroid } = this._centroids.at(path)!;
-			yield centroid;
+			if (centroid.value > endValue) break;
+			yield this.decayed(centroid);
 		}
 	}
 
 	/** Returns an iterator for the centroids in the histogram in descending order
-	 * @param criteria If specified, the iterator will start at the centroid at the given marker index or value; otherwise it will start at the last centroid
-	 * @remarks Mutating the histogram during iteration (via {@link add}, {@link append}, {@link mergeFrom}, or the {@link maxCentroids} setter) invalidates the iterator and may produce incorrect results or errors.
+	 * @param criteria If specified, the iterator will start at the centroid at the given marker index, value or quantile; otherwise it will start at the last centroid
+	 * @param end If specified, the iterator will stop after the centroid at the given marker index or quantile, or the last centroid at or above the given value; otherwise it will run to the first centroid
+	 * @param options If trim is set, the window runs from the rank of the end criteria to that of the start, and each centroid's count is only its mass within the window (see {@link IterationOptions})
+	 * @remarks Mutating the histogram during iteration (via {@link add}, {@link remove}, {@link append}, {@link mergeFrom}, or the {@link maxCentroids} setter) invalidates the iterator and may produce incorrect results or errors.
 	 */
-	*descending(criteria?: Criteria): IterableIterator<Centroid> {
-		const startPath = this.criteriaToPath(criteria) ?? this._centroids.last();
+	*descending(criteria?: Criteria, end?: Criteria, options: IterationOptions = {}): IterableIterator<Centroid> {
+		if (options.trim) {
+			yield* this.trimmedDescending(criteria, end);
+			return;
+		}
+		const startPath = this.criteriaToPath(criteria, false) ?? this._centroids.last();
+		const endValue = end ? this.criteriaValue(end) : -Infinity;
 		for (const path of this._centroids.descending(startPath)) {
 			const { loss: _, ...centroid } = this._centroids.at(path)!;
-			yield centroid;
+			if (centroid.value < endValue) break;
+			yield this.decayed(centroid);
 		}
 	}
 
-	/** Base *pair* loss between two centroids.
-	 * Kept independent of ranking heuristics; ordering may use curvature‑aware scores.
+	/** Returns a plain-data snapshot of the histogram, suitable for JSON serialization.
+	 * The snapshot captures everything needed by {@link fromJSON} to restore an equivalent histogram.
+	 * A decaying histogram's snapshot holds its decayed masses (see {@link advanceTo}); taking it doesn't change the histogram.
 	 */
-	private computeLoss(a: Centroid, b: Centroid): number {
-		// Weighted mean distance between centroids
-		const weightedDistance = Math.abs(a.value - b.value) * (a.count + b.count);
+	toJSON(): SparstogramJSON {
+		return {
+			maxCentroids: this._maxCentroids,
+			markers: this.markers ? [...this.markers] : undefined,
+			centroids: [...this.ascending()],
+			markerPositions: this._markers?.map(marker => marker ? this.snapshotMarker(marker) : null),
+			moments: this._moments.toJSON(),
+			...(this._count > 0 ? { min: this._min, max: this._max } : {}),
+			...(this._decay ? { time: this._time } : {}),
+		};
+	}
 
-		// Combine weighted distance and combined variance
-		// TODO: consider scaling factors for weightedDistance and combinedVariance to balance their contributions
-		return weightedDistance + combinedVariance(a, b);
+	/** A marker's position for a snapshot, in decayed masses.
+	 * Its offset keeps the same fraction of its decayed centroid (so the marker's value is unchanged), and its rank the same offset from the centroid's start.
+	 */
+	private snapshotMarker(marker: Marker): Marker {
+		const { value, variance, count } = this.decayed(marker.centroid);
+		if (this._scale === 1) {
+			return { rank: marker.rank, centroid: { value, variance, count }, offset: marker.offset };
+		}
+		const offset = count > 1 && marker.centroid.count > 1 ? Math.min(marker.offset * (count - 1) / (marker.centroid.count - 1), count - 1) : 0;
+		return { rank: (marker.rank - marker.offset - 1) * this._scale + 1 + offset, centroid: { value, variance, count }, offset };
+	}
+
+	/** Restores a histogram from a snapshot produced by {@link toJSON}.
+	 * The indexes are rebuilt directly from the centroids, rather than by replaying them through {@link append}.
+	 * Options, such as the compression policy, are not part of the snapshot; pass them again to restore them.
+	 * @throws {Error} If the snapshot is malformed (invalid centroids, centroids out of order, or markers mismatched or inconsistent with the centroids)
+	 */
+	static fromJSON(json: SparstogramJSON, options?: SparstogramOptions): Sparstogram {
+		const histogram = new Sparstogram(json.maxCentroids, json.markers ? [...json.markers] : undefined, options);
+		histogram.loadCentroids(json.centroids);
+		if (json.markerPositions) {
+			if (!histogram._markers || json.markerPositions.length !== histogram._markers.length) {
+				throw new Error("Marker positions must correspond to the markers");
+			}
+			histogram._markers = json.markerPositions.map(position => position ? histogram.restoredMarker(position) : undefined);
+		} else {
+			histogram.positionMarkers();
+		}
+		if (json.moments) {
+			histogram._moments = Moments.fromJSON(json.moments);
+		}
+		if (json.min !== undefined && json.max !== undefined) {
+			histogram._min = json.min;
+			histogram._max = json.max;
+		}
+		if (json.time !== undefined && histogram._decay) {
+			histogram._time = json.time;
+		}
+		if (histogram._accuracy) {
+			histogram.fitBudget();
+		}
+		histogram.claimRoom();
+		while (histogram._centroidCount > histogram._maxCentroids) {
+			histogram.compressOneBucket();
+		}
+		return histogram;
+	}
+
+	/** The marker at the given snapshot position, on the restored centroid it refers to
+	 * @throws {Error} If there is no centroid at the marker's value, or its rank or offset doesn't fall within that centroid
+	 */
+	private restoredMarker(position: Marker): Marker {
+		const centroid = position.centroid ? this._centroids.get(position.centroid.value) : undefined;
+		if (!centroid) {
+			throw new Error("Marker positions must refer to the centroids");
+		}
+		const start = this._counts.before(centroid.value) + 1;	// Rank of the first mass in the centroid
+		if (!(position.offset >= 0 && position.offset <= Math.max(0, centroid.count - 1)
+			&& Math.abs(position.rank - position.offset - start) <= MARKER_RANK_TOLERANCE * Math.max(1, this._count))) {
+			throw new Error("Marker rank and offset must fall within the marker's centroid");
+		}
+		return { rank: position.rank, centroid, offset: position.offset };
+	}
+
+	/** Encodes the histogram into a compact binary form.
+	 * The encoding starts with a versioned header, and stores centroids in ascending order with delta-encoded values,
+	 * varint counts, and a flag in place of zero variances, followed by the running moments, the observed range and, for a decaying histogram, its time.
+	 * A decaying histogram's encoding holds its decayed masses, as for {@link toJSON}.
+	 * @returns The encoded bytes, which can be restored using {@link deserialize}
+	 */
+	serialize(): Uint8Array {
+		const writer = new ByteWriter();
+		writer.uint8(ENCODING_MAGIC);
+		writer.uint8(ENCODING_VERSION);
+		writer.varint(this._maxCentroids);
+		const markers = this.markers ?? [];
+		writer.varint(markers.length);
+		for (let i = 0; i < markers.length; ++i) {
+			writer.float64(markers[i]);
+			const stored = this._markers![i];
+			writer.uint8(stored ? 1 : 0);
+			if (stored) {
+				const marker = this.snapshotMarker(stored);
+				writer.float64(marker.rank);
+				writer.float64(marker.offset);
+				writer.float64(marker.centroid.value);
+				writer.float64(marker.centroid.variance);
+				writer.float64(marker.centroid.count);
+			}
+		}
+		writer.varint(this._centroidCount);
+		let priorValue: number | undefined;
+		for (const { value, variance, count } of this.ascending()) {
+			const delta = priorValue !== undefined ? value - priorValue : undefined;
+			const integerDelta = delta !== undefined && Number.isSafeInteger(delta) && priorValue! + delta === value;
+			const integerCount = Number.isSafeInteger(count);
+			writer.uint8((variance === 0 ? CENTROID_ZERO_VARIANCE : 0)
+				| (integerDelta ? CENTROID_INTEGER_DELTA : 0)
+				| (integerCount ? 0 : CENTROID_FRACTIONAL_COUNT));
+			if (integerDelta) writer.varint(delta!); else writer.float64(value);
+			if (variance !== 0) writer.float64(variance);
+			if (integerCount) writer.varint(count); else writer.float64(count);
+			priorValue = value;
+		}
+		const { sum, mean, m2, m3, m4 } = this._moments;
+		[sum, mean, m2, m3, m4].forEach(moment => writer.float64(moment));
+		writer.float64(this._min);
+		writer.float64(this._max);
+		writer.uint8(this._decay ? 1 : 0);
+		if (this._decay) {
+			writer.float64(this._time);
+		}
+		return writer.toBytes();
 	}
 
-	// ----- Curvature‑aware local scoring -------------------------------------
-	// We approximate a local CDF curvature near the seam (prior, current) using
-	// density differences on the left and right: |dens(l,prior) - dens(prior,curr)|
-	// and |dens(prior,curr) - dens(curr,r)|.  The score used in _losses is:
-	//   score = baseLoss * (eps + 0.5*(leftCurv + rightCurv))
-	// This cheaply preserves bends (peaks/tails) while keeping operations local.
+	/** Restores a histogram from bytes produced by {@link serialize}.
+	 * The indexes are rebuilt directly from the decoded centroids, rather than by replaying them through {@link append}.
+	 * @throws {Error} If the bytes are not a Sparstogram encoding, are of an unsupported version, or are truncated or malformed
+	 */
+	static deserialize(bytes: Uint8Array, options?: SparstogramOptions): Sparstogram {
+		const reader = new ByteReader(bytes);
+		if (reader.uint8() !== ENCODING_MAGIC) {
+			throw new Error("Not a Sparstogram encoding");
+		}
+		const version = reader.uint8();
+		if (version !== ENCODING_VERSION) {
+			throw new Error(`Unsupported Sparstogram encoding version ${version}`);
+		}
+		const maxCentroids = reader.varint();
+		const markerCount = reader.varint();
+		const markers: number[] = [];
+		const markerPositions: (Marker | null)[] = [];
+		for (let i = 0; i < markerCount; ++i) {
+			markers.push(reader.float64());
+			if (reader.uint8()) {
+				const rank = reader.float64();
+				const offset = reader.float64();
+				const centroid = { value: reader.float64(), variance: reader.float64(), count: reader.float64() };
+				markerPositions.push({ rank, centroid, offset });
+			} else {
+				markerPositions.push(null);
+			}
+		}
+		const centroidCount = reader.varint();
+		const centroids: Centroid[] = [];
+		let priorValue = 0;
+		for (let i = 0; i < centroidCount; ++i) {
+			const flags = reader.uint8();
+			const value = flags & CENTROID_INTEGER_DELTA ? priorValue + reader.varint() : reader.float64();
+			const variance = flags & CENTROID_ZERO_VARIANCE ? 0 : reader.float64();
+			const count = flags & CENTROID_FRACTIONAL_COUNT ? reader.float64() : reader.varint();
+			centroids.push({ value, variance, count });
+			priorValue = value;
+		}
+		const moments = {
+			count: centroids.reduce((total, centroid) => total + centroid.count, 0),
+			sum: reader.float64(), mean: reader.float64(), m2: reader.float64(), m3: reader.float64(), m4: reader.float64(),
+		};
+		const min = reader.float64();
+		const max = reader.float64();
+		const time = reader.uint8() ? reader.float64() : undefined;
+		if (reader.remaining) {
+			throw new Error("Unexpected data after Sparstogram encoding");
+		}
+		return Sparstogram.fromJSON({ maxCentroids, centroids, moments, min, max, time, ...(markerCount ? { markers, markerPositions } : {}) }, options);
+	}
+
+	// ----- Pair scoring -------------------------------------------------------
+	// Each centroid's loss is the policy's score for the pair (prior, centroid), given the
+	// centroids either side of the pair; _losses orders the pairs by score to pick the next merge.
 	private getPriorScore(path: Path<number, CentroidEntry>, newCentroid: CentroidEntry): number {
 		const prior = this._centroids.prior(path);
 		if (!prior.on) return Infinity;
-		const a = this._centroids.at(prior)!; // prior
-		const b = newCentroid; // current
-		const base = this.computeLoss(a, b);
 		const lpath = this._centroids.prior(prior);
 		const rpath = this._centroids.next(path);
 		const l = lpath.on ? this._centroids.at(lpath)! : undefined;
 		const r = rpath.on ? this._centroids.at(rpath)! : undefined;
-		const curv = this.localCurvature(l, a, b, r);
-		return base * (SCORE_EPSILON + curv);
+		return this.scoreForPair(l, this._centroids.at(prior)!, newCentroid, r);
 	}
 
 	private updateNextScore(path: Path<number, CentroidEntry>, newCentroid: CentroidEntry): number {
 		const next = this._centroids.next(path);
 		if (!next.on) return Infinity;
-		const a = newCentroid; // prior in pair
-		const b = this._centroids.at(next)!; // current in pair
-		const base = this.computeLoss(a, b);
 		const lpath = this._centroids.prior(path);
 		const rpath = this._centroids.next(next);
 		const l = lpath.on ? this._centroids.at(lpath)! : undefined;
 		const r = rpath.on ? this._centroids.at(rpath)! : undefined;
-		const curv = this.localCurvature(l, a, b, r);
-		return base * (SCORE_EPSILON + curv);
-	}
-
-	private localCurvature(l: Centroid | undefined, a: Centroid, b: Centroid, r: Centroid | undefined): number {
-		const dens = (u: Centroid, v: Centroid) => (u.count + v.count) / (Math.abs(v.value - u.value) + DENSITY_EPSILON);
-		const left = l ? Math.abs(dens(l, a) - dens(a, b)) : dens(a, b);
-		const right = r ? Math.abs(dens(a, b) - dens(b, r)) : dens(a, b);
-		return 0.5 * (left + right);
+		return this.scoreForPair(l, newCentroid, this._centroids.at(next)!, r);
 	}
 
-	/** Curvature-aware score for merging pair (a, b) given optional outer neighbors l and r */
+	/** Policy score for merging pair (a, b) given optional outer neighbors l and r
+	 * @throws {Error} If the policy's score is NaN, which can't be ordered in the loss index
+	 */
 	private scoreForPair(l: Centroid | undefined, a: Centroid, b: Centroid, r: Centroid | undefined): number {
-		const base = this.computeLoss(a, b);
-		const curv = this.localCurvature(l, a, b, r);
-		return base * (SCORE_EPSILON + curv);
+		const position = this._policy.positional ? { before: this._counts.before(a.value), total: this._counts.total } : undefined;
+		const score = this._policy.score(l, a, b, r, position);
+		if (typeof score !== "number" || Number.isNaN(score)) {
+			throw new Error("Compression policy score must be a number");
+		}
+		// An infinite score would tie with the first centroid's, which has no pair to merge
+		return Math.min(score, Number.MAX_VALUE);
 	}
 
 	// Signature to allow binding via prototype to helper below
@@ -464,54 +1100,18 @@ export class Sparstogram {
 	private insertOrIncrementBucket(centroid: Centroid) {
 		const path = this._centroids.find(centroid.value);
 		if (path.on) {
-			const entry = this._centroids.at(path)!;
-			// Get all neighbor information before any tree mutations
-			const priorPath = this._centroids.prior(path);
-			const nextPath = this._centroids.next(path);
-			const priorCentroid = priorPath.on ? this._centroids.at(priorPath)! : undefined;
-			const nextCentroid = nextPath.on ? this._centroids.at(nextPath)! : undefined;
-
-			const beforeL = priorCentroid ? this.edgeContribution(priorCentroid, entry) : 0;
-			const afterR = nextCentroid ? this.edgeContribution(entry, nextCentroid) : 0;
-
-			const merged = combineSharedMean(entry, centroid);
-			// Consistent CentroidEntry shape: {value, variance, count, loss}
-			const updatedEntry: CentroidEntry = { value: merged.value, variance: merged.variance, count: merged.count, loss: 0 };
-
-			// Compute prior score with pre-fetched neighbors (avoids redundant tree navigations)
-			let priorScore = Infinity;
-			if (priorCentroid) {
-				const pp = this._centroids.prior(priorPath);
-				const priorPrior = pp.on ? this._centroids.at(pp)! : undefined;
-				priorScore = this.scoreForPair(priorPrior, priorCentroid, updatedEntry, nextCentroid);
-			}
-			this._centroids.updateAt(path, { value: merged.value, variance: merged.variance, count: merged.count, loss: priorScore });
-			this._losses.updateAt(this._losses.find({ loss: entry.loss, value: entry.value }), { loss: priorScore, value: entry.value });
-
-			// Update next score with pre-fetched neighbors
-			const nextPath2 = this._centroids.next(path);
-			if (nextPath2.on) {
-				const nextEntry = this._centroids.at(nextPath2)!;
-				const nn = this._centroids.next(nextPath2);
-				const nextNext = nn.on ? this._centroids.at(nn)! : undefined;
-				const nextScore = this.scoreForPair(priorCentroid, updatedEntry, nextEntry, nextNext);
-				this._centroids.updateAt(nextPath2, { value: nextEntry.value, variance: nextEntry.variance, count: nextEntry.count, loss: nextScore });
-				this._losses.updateAt(this._losses.find({ loss: nextEntry.loss, value: nextEntry.value }), { loss: nextScore, value: nextEntry.value });
-			}
-
-			// update J locally
-			const afterL2 = priorCentroid ? this.edgeContribution(priorCentroid, updatedEntry) : 0;
-			const afterR2 = nextCentroid ? this.edgeContribution(updatedEntry, nextCentroid) : 0;
-			this._tightnessJ += -beforeL - afterR + afterL2 + afterR2;
+			this.updateBucket(path, combineSharedMean(this._centroids.at(path)!, centroid));
+			this.updateMarkers(centroid.value, centroid.count);
 		} else {
 			++this._centroidCount;
-			const prior = this._centroids.prior(path);
-			const next = this._centroids.next(path);
-			// Get the actual centroids before inserting (paths will be invalid after)
-			const priorCentroid = prior.on ? this._centroids.at(prior)! : undefined;
-			const nextCentroid = next.on ? this._centroids.at(next)! : undefined;
 			const newEntry: CentroidEntry = { value: centroid.value, variance: centroid.variance, count: centroid.count, loss: Infinity };
 			const newPath = this._centroids.insert(newEntry);
+			// Neighbors are found from the inserted entry; from an unoccupied path at the end of a leaf, next() doesn't reach the following leaf
+			const prior = this._centroids.prior(newPath);
+			const next = this._centroids.next(newPath);
+			const priorCentroid = prior.on ? this._centroids.at(prior)! : undefined;
+			const nextCentroid = next.on ? this._centroids.at(next)! : undefined;
+			this._counts.set(centroid.value, centroid.count);
 			const priorScore = this.getPriorScore(newPath, newEntry);
 			this._centroids.updateAt(newPath, { value: centroid.value, variance: centroid.variance, count: centroid.count, loss: priorScore });
 			this._losses.insert({ loss: priorScore, value: centroid.value });
@@ -526,47 +1126,543 @@ export class Sparstogram {
 				this._tightnessJ += this.edgeContribution(newEntry, nextCentroid);
 			}
 			this.updateNext(newPath, newEntry);
-			this.updateMarkers(centroid.value);
+			this.updateMarkers(centroid.value, centroid.count);
+		}
+	}
+
+	/** Replaces the centroid at the given path with an updated count and variance (at the same value), rescoring its pairs and adjusting J */
+	private updateBucket(path: Path<number, CentroidEntry>, updated: Centroid) {
+		const entry = this._centroids.at(path)!;
+		// Get all neighbor information before any tree mutations
+		const priorPath = this._centroids.prior(path);
+		const nextPath = this._centroids.next(path);
+		const priorCentroid = priorPath.on ? this._centroids.at(priorPath)! : undefined;
+		const nextCentroid = nextPath.on ? this._centroids.at(nextPath)! : undefined;
+
+		const beforeL = priorCentroid ? this.edgeContribution(priorCentroid, entry) : 0;
+		const afterR = nextCentroid ? this.edgeContribution(entry, nextCentroid) : 0;
+
+		// Consistent CentroidEntry shape: {value, variance, count, loss}
+		const updatedEntry: CentroidEntry = { value: entry.value, variance: updated.variance, count: updated.count, loss: 0 };
+
+		// Compute prior score with pre-fetched neighbors (avoids redundant tree navigations)
+		let priorScore = Infinity;
+		if (priorCentroid) {
+			const pp = this._centroids.prior(priorPath);
+			const priorPrior = pp.on ? this._centroids.at(pp)! : undefined;
+			priorScore = this.scoreForPair(priorPrior, priorCentroid, updatedEntry, nextCentroid);
+		}
+		this._centroids.updateAt(path, { value: entry.value, variance: updated.variance, count: updated.count, loss: priorScore });
+		this._counts.set(entry.value, updated.count);
+		this._losses.updateAt(this._losses.find({ loss: entry.loss, value: entry.value }), { loss: priorScore, value: entry.value });
+
+		// Update next score with pre-fetched neighbors
+		const nextPath2 = this._centroids.next(path);
+		if (nextPath2.on) {
+			const nextEntry = this._centroids.at(nextPath2)!;
+			const nn = this._centroids.next(nextPath2);
+			const nextNext = nn.on ? this._centroids.at(nn)! : undefined;
+			const nextScore = this.scoreForPair(priorCentroid, updatedEntry, nextEntry, nextNext);
+			this._centroids.updateAt(nextPath2, { value: nextEntry.value, variance: nextEntry.variance, count: nextEntry.count, loss: nextScore });
+			this._losses.updateAt(this._losses.find({ loss: nextEntry.loss, value: nextEntry.value }), { loss: nextScore, value: nextEntry.value });
 		}
+
+		// update J locally
+		const afterL2 = priorCentroid ? this.edgeContribution(priorCentroid, updatedEntry) : 0;
+		const afterR2 = nextCentroid ? this.edgeContribution(updatedEntry, nextCentroid) : 0;
+		this._tightnessJ += -beforeL - afterR + afterL2 + afterR2;
 	}
 
-	/** Updates the markers to reflect the new value */
-	private updateMarkers(value: number) {
+	/** Signed rank (see {@link valueAt}) for a quantile, counting from the closest end */
+	private quantileRank(quantile: number): number {
+		const rank = Math.min(this._count, Math.max(1, Math.round(quantile * this._count)));
+		return quantile <= 0.5 ? rank : -Math.min(this._count, this._count - rank + 1);
+	}
+
+	/** Builds the quantile information for a signed rank (see {@link valueAt}) that falls in the given entry
+	 * @param before The total count of the centroids before the entry
+	 */
+	private quantileInEntry(rank: number, entry: CentroidEntry, before: number): Quantile {
+		const positiveRank = rank >= 0 ? rank : (this._count + rank + 1);
+		const offset = rank >= 0 ? Math.max(0, rank - before - 1) : (this._count + rank - before);
+		const { loss: _, ...centroid } = entry;
+		return {
+			rank: positiveRank,
+			centroid,
+			offset,
+			value: this.clampToRange(inferValueFromOffset(offset, entry))
+		};
+	}
+
+	/** Interpolated rank of a value, given the centroid at or after it (current) and, if not at one, the centroid before it (prior)
+	 * @param priorBefore The total count of the centroids before prior
+	 * @param currentBefore The total count of the centroids before current
+	 */
+	private rankFromNeighbors(value: number, prior: CentroidEntry | undefined, priorBefore: number, current: CentroidEntry | undefined, currentBefore: number): number {
+		if (value < this._min) return 0;
+		if (value >= this._max) return this._count;
+		if (current && current.value === value) {
+			return rankAtMean(current) + currentBefore;
+		}
+		else if (prior && current) {
+			return interpolateRank(value, prior, current) + priorBefore;
+		}
+		else if (current) {
+			return inferRank(value, current);
+		}
+		else if (prior) {
+			return inferRank(value, prior) + priorBefore;
+		}
+		return 0;
+	}
+
+	/** Interpolated count at a value, given the centroid at or after it (current) and, if not at one, the centroid before it (prior) */
+	private countFromNeighbors(value: number, prior: CentroidEntry | undefined, current: CentroidEntry | undefined): number {
+		if (value < this._min || value > this._max) {
+			return 0;
+		}
+		if (current && current.value === value) {
+			return rankAtMean(current);
+		}
+		else if (prior && current) {
+			return interpolateCount(value, prior, current);
+		}
+		else if (current) {
+			return inferCount(value, current);
+		}
+		else if (prior) {
+			return inferCount(value, prior);
+		}
+		return 0;	// no data - count is 0 everywhere
+	}
+
+	/** Count and sum of the values in a range: the difference of the two edges, plus the whole centroids from the lower edge's first centroid up to the upper's */
+	private band(lo: number, hi: number, bounds: Bounds): { count: number, sum: number } {
+		if (!(lo <= hi)) {
+			throw new Error("Lower bound must not exceed the upper bound");
+		}
+		if (!/^[[(][\])]$/.test(bounds)) {
+			throw new Error("Bounds must be one of \"[]\", \"[)\", \"(]\" or \"()\"");
+		}
+		if (this._centroidCount === 0) {
+			return { count: 0, sum: 0 };
+		}
+		const lower = this.bandEdge(lo, bounds[0] === "[");
+		const upper = this.bandEdge(hi, bounds[1] === ")");
+		let sum = upper.valueMass - lower.valueMass;
+		for (const path of this._centroids.ascending(this._centroids.find(lower.first.value))) {
+			const entry = this._centroids.at(path)!;
+			if (entry.value >= upper.first.value) break;
+			sum += entry.value * entry.count;
+		}
+		const count = upper.rank - lower.rank;
+		return count > 0 ? { count, sum } : { count: 0, sum: 0 };
+	}
+
+	/** The rank at an edge of a range (as for {@link rankAt}), and the sum of the values making up that rank from the start of the edge's first involved centroid
+	 * @param excludeAt If true, a point mass (centroid with no variance) at the value is excluded from the rank
+	 */
+	private bandEdge(value: number, excludeAt: boolean): { rank: number, first: CentroidEntry, valueMass: number } {
+		const path = this._centroids.find(value);
+		const prior = path.on ? undefined : this._centroids.at(this._centroids.prior(path));
+		const current = path.on ? this._centroids.at(path) : this._centroids.at(this._centroids.next(path));
+		const priorBefore = prior ? this._counts.before(prior.value) : 0;
+		const currentBefore = current ? this._counts.before(current.value) : 0;
+		let rank = this.rankFromNeighbors(value, prior, priorBefore, current, currentBefore);
+		let first: CentroidEntry;
+		let valueMass: number;
+		if (value < this._min) {
+			first = this._centroids.at(this._centroids.first())!;
+			valueMass = 0;
+		} else if (value >= this._max) {
+			first = (current ?? prior)!;	// the last centroid
+			valueMass = first.value * first.count;
+		} else {
+			first = (prior ?? current)!;
+			const within = rank - (prior ? priorBefore : currentBefore);
+			valueMass = within * meanAtOrBelow(value, prior && current ? [prior, current] : [first]);
+		}
+		if (excludeAt && current && current.value === value && current.variance === 0) {
+			rank -= current.count;
+			valueMass -= value * current.count;
+		}
+		return { rank, first, valueMass };
+	}
+
+	/** Visits the given values in ascending order, in one sweep of the centroids, with each value's neighbors as for {@link rankFromNeighbors} */
+	private sweepValues(values: number[], visit: (index: number, prior: CentroidEntry | undefined, priorBefore: number, current: CentroidEntry | undefined, currentBefore: number) => void) {
+		const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+		const paths = this._centroids.ascending(this._centroids.first());
+		const nextEntry = () => {
+			const next = paths.next();
+			return next.done ? undefined : this._centroids.at(next.value);
+		};
+		let prior: CentroidEntry | undefined;
+		let priorBefore = 0;
+		let current = nextEntry();
+		let currentBefore = 0;
+		for (const i of order) {
+			while (current && current.value < values[i]) {
+				prior = current;
+				priorBefore = currentBefore;
+				currentBefore += current.count;
+				current = nextEntry();
+			}
+			visit(i, current && current.value === values[i] ? undefined : prior, priorBefore, current, currentBefore);
+		}
+	}
+
+	/** Path to the centroid at the given value, or else the nearest one (the lower on a tie); the histogram must not be empty */
+	private nearestPath(value: number): Path<number, CentroidEntry> {
+		const path = this._centroids.find(value);
+		if (path.on) return path;
+		const prior = this._centroids.prior(path);
+		const next = this._centroids.next(path);
+		if (!prior.on) return next;
+		if (!next.on) return prior;
+		return value - this._centroids.at(prior)!.value <= this._centroids.at(next)!.value - value ? prior : next;
+	}
+
+	/** Takes mass (removed at the given value) out of the centroid at the given path, dropping the centroid if it is emptied.
+	 * The count must already be reduced.
+	 */
+	private reduceBucket(path: Path<number, CentroidEntry>, value: number, taken: number) {
+		const entry = this._centroids.at(path)!;
+		const count = entry.count - taken;
+		if (count > 0) {
+			// Sum of squares about the (unchanged) centroid value, less that of the removed mass
+			const sumOfSquares = Math.max(0, entry.variance * Math.max(0, entry.count - 1) - taken * (value - entry.value) ** 2);
+			this.updateBucket(path, { value: entry.value, variance: count > 1 ? sumOfSquares / (count - 1) : 0, count });
+			this.updateMarkers(entry.value, -taken);
+			return;
+		}
+
+		const priorPath = this._centroids.prior(path);
+		const nextPath = this._centroids.next(path);
+		const priorEntry = priorPath.on ? this._centroids.at(priorPath)! : undefined;
+		const nextEntry = nextPath.on ? this._centroids.at(nextPath)! : undefined;
+
+		// Markers on the dropped centroid move to the start of the next one (as positioned before the removal), or the end of the prior one
 		if (this._markers) {
 			for (let i = 0; i < this._markers.length; ++i) {
-				let marker = this._markers[i];
+				const marker = this._markers[i];
+				if (marker && marker.centroid.value === entry.value) {
+					const start = marker.rank - marker.offset;
+					if (nextEntry) {
+						this._markers[i] = { rank: start + entry.count, centroid: nextEntry, offset: 0 };
+					} else if (priorEntry) {
+						const offset = Math.max(0, priorEntry.count - 1);
+						this._markers[i] = { rank: start - priorEntry.count + offset, centroid: priorEntry, offset };
+					} else {
+						this._markers[i] = undefined;
+					}
+				}
+			}
+		}
+
+		if (priorEntry) this._tightnessJ -= this.edgeContribution(priorEntry, entry);
+		if (nextEntry) this._tightnessJ -= this.edgeContribution(entry, nextEntry);
+		if (priorEntry && nextEntry) this._tightnessJ += this.edgeContribution(priorEntry, nextEntry);
+
+		this._centroids.deleteAt(path);
+		this._counts.delete(entry.value);
+		this._losses.deleteAt(this._losses.find({ loss: entry.loss, value: entry.value }));
+		--this._centroidCount;
+
+		if (nextEntry) {	// The next centroid's pair is now with the prior (or it is first)
+			const newNextPath = this._centroids.find(nextEntry.value);
+			const score = this.getPriorScore(newNextPath, nextEntry);
+			this._centroids.updateAt(newNextPath, { value: nextEntry.value, variance: nextEntry.variance, count: nextEntry.count, loss: score });
+			this._losses.updateAt(this._losses.find({ loss: nextEntry.loss, value: nextEntry.value }), { loss: score, value: nextEntry.value });
+		}
+
+		// Narrow the observed range if an end was dropped
+		if (!priorEntry && nextEntry) {
+			this._min = Math.max(this._min, nextEntry.value - inferredSpread(nextEntry));
+		}
+		if (!nextEntry && priorEntry) {
+			this._max = Math.min(this._max, priorEntry.value + inferredSpread(priorEntry));
+		}
+
+		if (this._centroidCount > 0) {
+			this.updateMarkers(entry.value, -taken);
+		}
+	}
+
+	/** Widens the observed range to include the values inferred from the given centroid */
+	private extendRange(centroid: Centroid) {
+		const spread = inferredSpread(centroid);
+		this._min = Math.min(this._min, centroid.value - spread);
+		this._max = Math.max(this._max, centroid.value + spread);
+	}
+
+	private clampToRange(value: number): number {
+		return Math.min(this._max, Math.max(this._min, value));
+	}
+
+	/** A centroid with its mass in stored terms, from decayed terms (see {@link advanceTo}) */
+	private stored(centroid: Centroid): Centroid {
+		return this._scale === 1 ? centroid : { ...centroid, count: centroid.count / this._scale };
+	}
+
+	/** A centroid with its mass in decayed terms, from stored terms (see {@link advanceTo}) */
+	private decayed<T extends Centroid>(centroid: T): T {
+		return this._scale === 1 ? centroid : { ...centroid, count: centroid.count * this._scale };
+	}
+
+	/** Quantile information with its masses in decayed terms, from stored terms (see {@link advanceTo}) */
+	private decayedQuantile(quantile: Quantile): Quantile {
+		return this._scale === 1 ? quantile
+			: { ...quantile, rank: quantile.rank * this._scale, offset: quantile.offset * this._scale, centroid: this.decayed(quantile.centroid) };
+	}
+
+	/** The centroids, in ascending value order, with their stored masses */
+	private storedCentroids(): Centroid[] {
+		const centroids: Centroid[] = [];
+		for (const path of this._centroids.ascending(this._centroids.first())) {
+			const { value, variance, count } = this._centroids.at(path)!;
+			centroids.push({ value, variance, count });
+		}
+		return centroids;
+	}
+
+	/** Loads centroids into the (empty) indexes directly, scoring each pair once its neighbors are known.
+	 * @param centroids The centroids, in strictly ascending value order
+	 */
+	private loadCentroids(centroids: Centroid[]) {
+		for (let i = 0; i < centroids.length; ++i) {
+			const centroid = centroids[i];
+			validateCentroid(centroid);
+			if (i > 0 && centroid.value <= centroids[i - 1].value) {
+				throw new Error("Centroids must be in strictly ascending value order");
+			}
+		}
+		this.rebuildIndexes(centroids);
+		for (const centroid of centroids) {
+			this._count += centroid.count;
+			this._moments.addCentroid(centroid);
+			this.extendRange(centroid);
+		}
+	}
+
+	/** Replaces the contents with the merge of the given histograms (which may include this one, unless it decays), then compresses once.
+	 * Centroids at the same value and the running moments are combined in a canonical order, so the result doesn't depend on the order of the sources.
+	 * If deterministic and the merged centroids are exact, the moments are derived from them instead, so they don't depend on how the sources were grouped.
+	 */
+	private loadMerged(sources: Sparstogram[]) {
+		sources = [...sources].sort((a, b) => compareMoments(a._moments, b._moments));
+		const centroids = mergeRuns(sources.map(source => [...source.ascending()]));
+		const moments = new Moments();
+		let min = Infinity;	// the sources' exact ranges, rather than those inferred from their centroids
+		let max = -Infinity;
+		for (const source of sources) {
+			moments.merge(source._moments);
+			min = Math.min(min, source._min);
+			max = Math.max(max, source._max);
+		}
+		this._count = 0;
+		this._moments = new Moments();
+		this.loadCentroids(centroids);
+		if (!(this._deterministic && centroids.every(centroid => centroid.variance === 0 && Number.isInteger(centroid.count)))) {
+			this._moments = moments;
+		}
+		this._min = min;
+		this._max = max;
+		this.positionMarkers();
+		if (this._accuracy) {
+			this.fitBudget();
+		}
+		this.claimRoom();
+		while (this._centroidCount > this._maxCentroids) {
+			this.compressOneBucket();
+		}
+	}
+
+	/** Replaces the indexes (and tightness J) with ones built directly from the given centroids, scoring each pair once its neighbors are known.
+	 * The count, moments, range and markers are left to the caller.
+	 * @param centroids The centroids, in strictly ascending value order
+	 */
+	private rebuildIndexes(centroids: Centroid[]) {
+		this._centroids = centroidIndex();
+		this._losses = lossIndex();
+		this._counts = new CountTree();
+		this._tightnessJ = 0;
+		for (const { value, count } of centroids) {
+			this._counts.set(value, count);	// all counts are in place before pairs are scored
+		}
+		for (let i = 0; i < centroids.length; ++i) {
+			const { value, variance, count } = centroids[i];
+			const loss = i > 0 ? this.scoreForPair(centroids[i - 2], centroids[i - 1], centroids[i], centroids[i + 1]) : Infinity;
+			this._centroids.insert({ value, variance, count, loss });
+			this._losses.insert({ loss, value });
+			if (i > 0) this._tightnessJ += this.edgeContribution(centroids[i - 1], centroids[i]);
+		}
+		this._centroidCount = centroids.length;
+	}
+
+	/** Merges pairs for as long as any would stay within the accuracy target, in loss order; then sets the budget to the remaining centroids.
+	 * Pairs that miss the target are passed over, so one (such as a pair straddling zero, for a relative error target) doesn't hold up the rest.
+	 * Scanning every pair is linear, so it is only done once the centroids have grown by a fraction (FULL_FIT_GROWTH) since the last scan;
+	 * in between, only the pair with the least loss is tried, as each value is added.  The centroids thereby stay within that fraction of the fewest the target allows.
+	 * @returns The base loss of the last merge, or 0 if none
+	 */
+	private fitBudget(): number {
+		let loss = 0;
+		if (this._centroidCount > this._fittedCentroids * FULL_FIT_GROWTH) {
+			for (let values = this.pairsWithinAccuracy(); values.length; values = this.pairsWithinAccuracy()) {
+				for (const value of values) {
+					const pair = this.pairWithinAccuracy(this._centroids.find(value));	// earlier merges may have changed or taken the pair
+					if (pair) loss = this.mergePair(...pair);
+				}
+			}
+			this._fittedCentroids = this._centroidCount;
+		} else {
+			for (let pair = this.firstPairWithinAccuracy(); pair; pair = this.firstPairWithinAccuracy()) {
+				loss = this.mergePair(...pair);
+			}
+		}
+		this._fittedCentroids = Math.min(this._fittedCentroids, this._centroidCount);
+		this._maxCentroids = Math.max(1, this._centroidCount);
+		return loss;
+	}
+
+	/** Folds the decay scale into the stored masses, rebuilding the indexes without the centroids whose mass has fallen below the decay's pruneBelow.
+	 * Pruned mass is taken out of the moments, and the observed range is narrowed if an end is pruned, as for {@link remove}.
+	 */
+	private foldDecay() {
+		const scale = this._scale;
+		const all = this.storedCentroids();
+		const kept: Centroid[] = [];
+		for (const { value, variance, count } of all) {
+			const centroid = { value, variance, count: count * scale };
+			if (centroid.count >= this._decay!.pruneBelow && centroid.count > 0) {
+				kept.push(centroid);
+			} else {
+				this._moments.removeCentroid(centroid);
+			}
+		}
+		this._scale = 1;
+		this.rebuildIndexes(kept);
+		this._count = kept.reduce((total, centroid) => total + centroid.count, 0);
+		if (kept.length === 0) {
+			this._count = 0;
+			this._moments = new Moments();
+			this._min = Infinity;
+			this._max = -Infinity;
+			this._markers = this._markers?.map(() => undefined);
+			return;
+		}
+		if (kept[0].value !== all[0].value) {
+			this._min = Math.max(this._min, kept[0].value - inferredSpread(kept[0]));
+		}
+		if (kept[kept.length - 1].value !== all[all.length - 1].value) {
+			this._max = Math.min(this._max, kept[kept.length - 1].value + inferredSpread(kept[kept.length - 1]));
+		}
+		this.positionMarkers();
+	}
+
+	/** With a memory pool, grows the budget toward the centroids held, for as long as the pool grants room (possibly compressing other members) */
+	private claimRoom() {
+		while (this._pool && this._centroidCount > this._maxCentroids && this._pool.grow(this)) {
+			++this._maxCentroids;
+		}
+	}
+
+	/** The values of the centroids whose pairs (with their priors) would merge within the accuracy target, in loss order */
+	private pairsWithinAccuracy(): number[] {
+		const values: number[] = [];
+		for (const lossPath of this._losses.ascending(this._losses.first())) {
+			const { loss, value } = this._losses.at(lossPath)!;
+			if (loss === Infinity) break;	// only the first centroid, which has no pair, remains
+			const path = this._centroids.find(value);
+			if (path.on && this._centroids.at(path)!.loss === loss && this.pairWithinAccuracy(path)) {	// otherwise stale; left to compressOneBucket
+				values.push(value);
+			}
+		}
+		return values;
+	}
+
+	/** The pair with the least loss, if it would merge within the accuracy target */
+	private firstPairWithinAccuracy(): MergeablePair | undefined {
+		const lossEntry = this._losses.at(this._losses.first());
+		if (!lossEntry || lossEntry.loss === Infinity) return undefined;	// only the first centroid, which has no pair
+		const path = this._centroids.find(lossEntry.value);
+		return path.on ? this.pairWithinAccuracy(path) : undefined;	// stale; left to compressOneBucket
+	}
+
+	/** The pair of the centroid at the path and its prior, if its merged centroid would be within the accuracy target */
+	private pairWithinAccuracy(path: Path<number, CentroidEntry>): MergeablePair | undefined {
+		const priorPath = path.on ? this._centroids.prior(path) : undefined;
+		if (!priorPath?.on) return undefined;
+		const a = this._centroids.at(priorPath)!;
+		const b = this._centroids.at(path)!;
+		const merged = { value: this._policy.place(a, b), variance: combinedVariance(a, b), count: a.count + b.count };
+		if (this.centroidError(merged) > (this._accuracy!.rankError ?? this._accuracy!.relativeError!)) return undefined;
+		const lossPath = this._losses.find({ loss: b.loss, value: b.value });
+		return lossPath.on ? [lossPath, priorPath, path] : undefined;
+	}
+
+	/** Error of a centroid, in the terms of the accuracy target (see {@link Accuracy}) */
+	private centroidError(centroid: Centroid): number {
+		if (centroid.variance === 0) return 0;
+		return this._accuracy?.relativeError !== undefined
+			? Math.sqrt(centroid.variance) / Math.abs(centroid.value)
+			: centroid.count / (2 * this._count);
+	}
+
+	/** Positions every marker from scratch at its target rank.
+	 * The rank is kept at the start of the marker's centroid plus its offset, which with fractional counts may differ from the target.
+	 */
+	private positionMarkers() {
+		if (this._markers && this._count > 0) {
+			this._markers = this.markers!.map(q => {
+				const { centroid } = this.quantileAtRank(Math.min(this._count, Math.round(q * (this._count - 1)) + 1));
+				const entry = this._centroids.get(centroid.value)!;
+				const start = this._counts.before(entry.value) + 1;	// Rank of the first mass in the marker's centroid
+				const offset = Math.min(Math.max(0, Math.round(q * (this._count - 1)) + 1 - start), Math.max(0, entry.count - 1));
+				return { rank: start + offset, centroid: entry, offset };
+			});
+		}
+	}
+
+	/** Updates the markers to reflect mass added at the given value (already in the centroids and count).
+	 * Each marker tracks the rank at which its centroid starts, then walks whole centroids toward its target rank.
+	 * @param value The value at which mass was added
+	 * @param delta The mass added (may be fractional)
+	 */
+	private updateMarkers(value: number, delta: number) {
+		if (this._markers) {
+			const target = (i: number) => Math.round(this.markers![i] * (this._count - 1)) + 1;	// Rank is 1 based
+			for (let i = 0; i < this._markers.length; ++i) {
+				const marker = this._markers[i];
+				let path: Path<number, CentroidEntry>;
+				let start: number;	// Rank of the first mass in the marker's centroid
 				if (!marker) {	// this must be the first centroid
-					this._markers[i] = marker = { rank: 1, centroid: this._centroids.at(this._centroids.first())!, offset: 0 };
+					path = this._centroids.first();
+					start = 1;
 				} else {
-					if (value < marker.centroid.value) {
-						++marker.rank;
-					}
-					const newRank = Math.round(this.markers![i] * (this._count - 1)) + 1;	// Rank is 1 based
-					while (newRank > marker.rank) {
-						if (marker.offset < marker.centroid.count - 1) {
-							++marker.offset;
-						} else {	// move to the next centroid
-							const nextPath = this._centroids.next(this._centroids.find(marker.centroid.value));
-							if (nextPath.on) {	// There should always be a next; if not just stay on the last centroid
-								marker.centroid = this._centroids.at(nextPath)!;
-								marker.offset = 0;
-							}
-						}
-						++marker.rank;
-					}
-					while (newRank < marker.rank) {
-						if (marker.offset > 0) {
-							--marker.offset;
-						} else {	// move to the prior centroid
-							const priorPath = this._centroids.prior(this._centroids.find(marker.centroid.value));
-							if (priorPath.on) {	// There should always be a prior; if not just stay on the first centroid
-								marker.centroid = this._centroids.at(priorPath)!;
-								marker.offset = marker.centroid.count - 1;
-							}
-						}
-						--marker.rank;
-					}
+					// The marker's centroid object may have been replaced, so re-fetch it by value
+					path = this._centroids.find(marker.centroid.value);
+					start = marker.rank - marker.offset + (value < marker.centroid.value ? delta : 0);
 				}
+				const rank = target(i);
+				let entry = this._centroids.at(path)!;
+				while (rank >= start + entry.count) {
+					const next = this._centroids.next(path);
+					if (!next.on) break;	// There should always be a next; if not just stay on the last centroid
+					start += entry.count;
+					path = next;
+					entry = this._centroids.at(path)!;
+				}
+				while (rank < start) {
+					const prior = this._centroids.prior(path);
+					if (!prior.on) break;	// There should always be a prior; if not just stay on the first centroid
+					path = prior;
+					entry = this._centroids.at(path)!;
+					start -= entry.count;
+				}
+				const offset = Math.min(Math.max(0, rank - start), Math.max(0, entry.count - 1));
+				this._markers[i] = { rank: start + offset, centroid: entry, offset };
 			}
 		}
 	}
@@ -602,7 +1698,6 @@ export class Sparstogram {
 				}
 				continue;
 			}
-			const minEntry = this._centroids.at(minPath)!;
 			const priorPath = this._centroids.prior(minPath);	// This should be there because the first entry should have infinite loss and never be selected
 			if (!priorPath.on) {
 				// Stale loss entry that points at the first centroid (no prior). Drop and retry.
@@ -624,116 +1719,305 @@ export class Sparstogram {
 				continue;
 			}
 
-			// Found a valid pair — proceed with merge
-			const priorPriorPath = this._centroids.prior(priorPath);
-			const priorPriorEntry = priorPriorPath.on ? this._centroids.at(priorPriorPath)! : undefined;
-			const nextPath = this._centroids.next(minPath);
-			const nextEntry = nextPath.on ? this._centroids.at(nextPath)! : undefined;
-
-			// Micro‑recentering: place merged centroid at the weighted median of the pair
-			const newCount = priorEntry.count + minEntry.count;
-			const newVariance = combinedVariance(priorEntry, minEntry);
-			const xWeightedMedian = (priorEntry.count >= minEntry.count) ? priorEntry.value : minEntry.value;
-			// Consistent CentroidEntry shape: {value, variance, count, loss}
-			const newEntry: CentroidEntry = { value: xWeightedMedian, variance: newVariance, count: newCount, loss: Infinity };
-
-			// Update markers
-			if (this._markers) {
-				for (let i = 0; i < this._markers.length; ++i) {
-					const marker = this._markers[i];
-					if (marker && marker.centroid) {
-						if (marker.centroid.value === priorEntry.value) {
-							marker.centroid = newEntry;
-						} else if (marker.centroid.value === minEntry.value) {
-							marker.offset += priorEntry.count;
-							marker.centroid = newEntry;
-						}
+			return this.mergePair(minLossPath, priorPath, minPath);
+		}
+	}
+
+	/** Merges the pair (prior, min) into one centroid, given the path of the pair's loss entry
+	 * @returns The base loss of the merge
+	 */
+	private mergePair(...[minLossPath, priorPath, minPath]: MergeablePair): number {
+		const priorEntry = this._centroids.at(priorPath)!;
+		const minEntry = this._centroids.at(minPath)!;
+		const priorPriorPath = this._centroids.prior(priorPath);
+		const priorPriorEntry = priorPriorPath.on ? this._centroids.at(priorPriorPath)! : undefined;
+		const nextPath = this._centroids.next(minPath);
+		const nextEntry = nextPath.on ? this._centroids.at(nextPath)! : undefined;
+
+		// Placement is up to the policy (by default, micro-recentering at the weighted median of the pair)
+		const newCount = priorEntry.count + minEntry.count;
+		const newVariance = combinedVariance(priorEntry, minEntry);
+		const newValue = this._policy.place(priorEntry, minEntry);
+		if (!(newValue >= priorEntry.value && newValue <= minEntry.value)) {
+			throw new Error("Compression policy must place a merged centroid between the values of the pair");
+		}
+		// Consistent CentroidEntry shape: {value, variance, count, loss}
+		const newEntry: CentroidEntry = { value: newValue, variance: newVariance, count: newCount, loss: Infinity };
+
+		// Update markers
+		if (this._markers) {
+			for (let i = 0; i < this._markers.length; ++i) {
+				const marker = this._markers[i];
+				if (marker && marker.centroid) {
+					if (marker.centroid.value === priorEntry.value) {
+						marker.centroid = newEntry;
+					} else if (marker.centroid.value === minEntry.value) {
+						marker.offset += priorEntry.count;
+						marker.centroid = newEntry;
 					}
 				}
 			}
+		}
 
-			// Remove the old buckets and insert the merged one
-			// Update tightness J locally for edges affected: (priorPrior,prior), (prior,min), (min,next)
-			if (priorPriorEntry) this._tightnessJ -= this.edgeContribution(priorPriorEntry, priorEntry);
-			this._tightnessJ -= this.edgeContribution(priorEntry, minEntry);
-			if (nextEntry) this._tightnessJ -= this.edgeContribution(minEntry, nextEntry);
-
-			this._centroids.deleteAt(priorPath);
-			this._centroids.deleteAt(this._centroids.find(minEntry.value)!);
-			const newPath = this._centroids.insert(newEntry);
-			const newScore = this.getPriorScore(newPath, newEntry);
-			this._centroids.updateAt(newPath, { value: newEntry.value, variance: newEntry.variance, count: newEntry.count, loss: newScore });
-			this._losses.deleteAt(minLossPath);
-			this._losses.deleteAt(this._losses.find({ loss: priorEntry.loss, value: priorEntry.value })!);
-			this._losses.insert({ loss: newScore, value: newEntry.value });
-			this.updateNext(newPath, newEntry);
+		// Remove the old buckets and insert the merged one
+		// Update tightness J locally for edges affected: (priorPrior,prior), (prior,min), (min,next)
+		if (priorPriorEntry) this._tightnessJ -= this.edgeContribution(priorPriorEntry, priorEntry);
+		this._tightnessJ -= this.edgeContribution(priorEntry, minEntry);
+		if (nextEntry) this._tightnessJ -= this.edgeContribution(minEntry, nextEntry);
+
+		this._centroids.deleteAt(priorPath);
+		this._centroids.deleteAt(this._centroids.find(minEntry.value)!);
+		const newPath = this._centroids.insert(newEntry);
+		this._counts.delete(priorEntry.value);
+		this._counts.delete(minEntry.value);
+		this._counts.set(newEntry.value, newCount);
+		const newScore = this.getPriorScore(newPath, newEntry);
+		this._centroids.updateAt(newPath, { value: newEntry.value, variance: newEntry.variance, count: newEntry.count, loss: newScore });
+		this._losses.deleteAt(minLossPath);
+		this._losses.deleteAt(this._losses.find({ loss: priorEntry.loss, value: priorEntry.value })!);
+		this._losses.insert({ loss: newScore, value: newEntry.value });
+		this.updateNext(newPath, newEntry);
+
+		// Add new edge contributions
+		if (priorPriorEntry) this._tightnessJ += this.edgeContribution(priorPriorEntry, newEntry);
+		if (nextEntry) this._tightnessJ += this.edgeContribution(newEntry, nextEntry);
+
+		this._centroidCount--; // Reflect the merge in the bucket count
+
+		if (this._onMerge) {
+			const copy = ({ value, variance, count }: Centroid) => this.decayed({ value, variance, count });
+			this._onMerge(copy(priorEntry), copy(minEntry), copy(newEntry));
+		}
+		return pairLoss(priorEntry, minEntry); // base loss for API compatibility
+	}
 
-			// Add new edge contributions
-			if (priorPriorEntry) this._tightnessJ += this.edgeContribution(priorPriorEntry, newEntry);
-			if (nextEntry) this._tightnessJ += this.edgeContribution(newEntry, nextEntry);
+	/** Path to the centroid at the criteria, or if between centroids, the next one in the direction of iteration */
+	private criteriaToPath(criteria: Criteria | undefined, ascending: boolean): Path<number, CentroidEntry> | undefined {
+		if (!criteria) return undefined;
+		const path = this._centroids.find(this.criteriaValue(criteria));
+		return path.on ? path : ascending ? this._centroids.next(path) : this._centroids.prior(path);
+	}
 
-			this._centroidCount--; // Reflect the merge in the bucket count
+	/** The given value, or the value of the centroid at the given marker index or quantile */
+	private criteriaValue(criteria: Criteria): number {
+		validateCriteria(criteria);
+		return criteria.markerIndex !== undefined ? this.storedMarker(criteria.markerIndex).centroid.value
+			: criteria.quantile !== undefined ? this.quantileAt(criteria.quantile).centroid.value
+				: criteria.value!;
+	}
 
-			return this.computeLoss(priorEntry, minEntry); // base loss for API compatibility
+	/** The rank at which a trimmed window bounded by the criteria starts (lower) or ends (upper).
+	 * A value bounds the window as for {@link countBetween}'s closed bounds; a marker or quantile includes the whole unit at its rank.
+	 */
+	private criteriaRank(criteria: Criteria, upper: boolean): number {
+		validateCriteria(criteria);
+		if (criteria.value !== undefined) {
+			return this.bandEdge(criteria.value, !upper).rank;
 		}
+		const { rank } = criteria.markerIndex !== undefined ? this.storedMarker(criteria.markerIndex) : this.quantileAtRank(this.quantileRank(criteria.quantile!));
+		return upper ? rank : Math.max(0, rank - 1);
 	}
 
-	private criteriaToPath(criteria?: Criteria): Path<number, CentroidEntry> | undefined {
-		if (criteria) {
-			const fieldCount = (criteria.markerIndex !== undefined ? 1 : 0)
-				+ (criteria.value !== undefined ? 1 : 0)
-				+ (criteria.quantile !== undefined ? 1 : 0);
-			if (fieldCount > 1) {
-				throw new Error("Only one of markerIndex, value, or quantile can be specified as criteria");
+	private *trimmedAscending(start?: Criteria, end?: Criteria): IterableIterator<Centroid> {
+		if (this._count === 0) return;
+		const low = start ? this.criteriaRank(start, false) : 0;
+		const high = end ? this.criteriaRank(end, true) : this._count;
+		const selection = this._counts.select(low, true);
+		let before = selection!.before;
+		for (const path of this._centroids.ascending(this._centroids.find(selection!.key))) {
+			if (before >= high) break;
+			const { loss: _, ...centroid } = this._centroids.at(path)!;
+			const inside = Math.min(high, before + centroid.count) - Math.max(low, before);
+			before += centroid.count;
+			if (inside > 0) {
+				yield { ...centroid, count: inside * this._scale };
 			}
-			if (fieldCount === 0) {
-				throw new Error("Either markerIndex, value, or quantile must be specified as criteria");
+		}
+	}
+
+	private *trimmedDescending(start?: Criteria, end?: Criteria): IterableIterator<Centroid> {
+		if (this._count === 0) return;
+		const high = start ? this.criteriaRank(start, true) : this._count;
+		const low = end ? this.criteriaRank(end, false) : 0;
+		const selection = this._counts.select(high);
+		let after = selection!.before + selection!.count;
+		for (const path of this._centroids.descending(this._centroids.find(selection!.key))) {
+			if (after <= low) break;
+			const { loss: _, ...centroid } = this._centroids.at(path)!;
+			const inside = Math.min(high, after) - Math.max(low, after - centroid.count);
+			after -= centroid.count;
+			if (inside > 0) {
+				yield { ...centroid, count: inside * this._scale };
 			}
-			return criteria.markerIndex !== undefined ? this._centroids.find(this.markerAt(criteria.markerIndex).centroid.value)
-				: criteria.quantile !== undefined ? this._centroids.find(this.quantileAt(criteria.quantile).centroid.value)
-					: this._centroids.find(criteria.value!);
 		}
-		return undefined;
 	}
 }
 
-/** Returns the merged centroid, assuming a shared mean */
-function combineSharedMean(centroidA: Centroid, centroidB: Centroid) {
-	const count = centroidA.count + centroidB.count;
-	const variance = (centroidA.variance * (centroidA.count - 1) + centroidB.variance * (centroidB.count - 1))
-		/ (count - 1);	// Remove DOF
-	return { value: centroidA.value, variance, count };
+/** @throws {Error} If not exactly one of the error measures is given, or it is out of range */
+function validateAccuracy(accuracy: Accuracy): Accuracy {
+	const { rankError, relativeError } = accuracy;
+	if ((rankError === undefined) === (relativeError === undefined)) {
+		throw new Error("Accuracy must give exactly one of rankError or relativeError");
+	}
+	if (rankError !== undefined && !(rankError > 0 && rankError < 1)) {
+		throw new Error("rankError must be greater than 0 and less than 1");
+	}
+	if (relativeError !== undefined && !(relativeError > 0 && Number.isFinite(relativeError))) {
+		throw new Error("relativeError must be a positive finite number");
+	}
+	return rankError !== undefined ? { rankError } : { relativeError };
+}
+
+/** @throws {Error} If the half-life is not a positive finite number, the pruning threshold is negative, or the start time is not finite */
+function validateDecay(decay: Decay): Required<Decay> {
+	const { halfLife, pruneBelow = DEFAULT_PRUNE_BELOW, start = 0 } = decay;
+	if (!(Number.isFinite(halfLife) && halfLife > 0)) {
+		throw new Error("Decay halfLife must be a positive finite number");
+	}
+	if (!(pruneBelow >= 0)) {
+		throw new Error("Decay pruneBelow must be at least 0");
+	}
+	if (!Number.isFinite(start)) {
+		throw new Error("Decay start must be a finite number");
+	}
+	return { halfLife, pruneBelow, start };
 }
 
-/** Estimates combined variance if merged, considering the weighted mean */
-function combinedVariance(a: Centroid, b: Centroid): number {
-	const nA = a.count;
-	const nB = b.count;
-	const totalN = nA + nB;
+/** @throws {Error} If not exactly one of markerIndex, value, or quantile is given */
+function validateCriteria(criteria: Criteria) {
+	const fieldCount = (criteria.markerIndex !== undefined ? 1 : 0)
+		+ (criteria.value !== undefined ? 1 : 0)
+		+ (criteria.quantile !== undefined ? 1 : 0);
+	if (fieldCount > 1) {
+		throw new Error("Only one of markerIndex, value, or quantile can be specified as criteria");
+	}
+	if (fieldCount === 0) {
+		throw new Error("Either markerIndex, value, or quantile must be specified as criteria");
+	}
+}
 
-	if (totalN <= 1) {
-		return 0; // Variance is undefined or 0 for a single point or no points
+/** @throws {Error} If the centroid's value is not finite, its count is not positive and finite, or its variance is negative */
+function validateCentroid(centroid: Centroid) {
+	if (!Number.isFinite(centroid.value)) {
+		throw new Error("Centroid value must be a finite number");
+	}
+	if (!(Number.isFinite(centroid.count) && centroid.count > 0)) {
+		throw new Error("Centroid count must be a positive finite number");
+	}
+	if (centroid.variance < 0) {
+		throw new Error("Centroid variance must be at least 0");
+	}
+}
+
+/** Merges two runs of centroids, each in strictly ascending value order, into one; centroids at the same value are combined (see combineSharedMean) */
+function mergeAscending(a: Iterable<Centroid>, b: Centroid[]): Centroid[] {
+	const merged: Centroid[] = [];
+	let j = 0;
+	for (const centroid of a) {
+		while (j < b.length && b[j].value < centroid.value) {
+			merged.push(b[j++]);
+		}
+		merged.push(j < b.length && b[j].value === centroid.value ? combineSharedMean(centroid, b[j++]) : centroid);
+	}
+	while (j < b.length) {
+		merged.push(b[j++]);
 	}
+	return merged;
+}
 
-	// Sum of squares for centroid A. Initial centroids (count=1) have variance=0, so ssA will be 0.
-	const ssA = nA > 0 ? a.variance * (nA > 1 ? nA - 1 : 0) : 0;
-	// Sum of squares for centroid B.
-	const ssB = nB > 0 ? b.variance * (nB > 1 ? nB - 1 : 0) : 0;
+/** Merges runs of centroids, each in strictly ascending value order, in one k-way pass (with a heap of the runs, by the value at each run's head).
+ * Centroids at the same value are combined (see combineSharedMean) in order of count, then variance, so the result doesn't depend on the order of the runs.
+ */
+function mergeRuns(runs: Centroid[][]): Centroid[] {
+	const heads = runs.map(() => 0);
+	const heap = runs.map((_, run) => run).filter(run => runs[run].length > 0);
+	const valueAt = (index: number) => runs[heap[index]][heads[heap[index]]].value;
+	const siftDown = (index: number) => {
+		for (;;) {
+			const left = 2 * index + 1;
+			const least = left + 1 < heap.length && valueAt(left + 1) < valueAt(left) ? left + 1 : left;
+			if (least >= heap.length || valueAt(index) <= valueAt(least)) return;
+			[heap[index], heap[least]] = [heap[least], heap[index]];
+			index = least;
+		}
+	};
+	for (let i = (heap.length >> 1) - 1; i >= 0; --i) siftDown(i);
+
+	const merged: Centroid[] = [];
+	while (heap.length) {
+		const value = valueAt(0);
+		const same: Centroid[] = [];
+		while (heap.length && valueAt(0) === value) {
+			const run = heap[0];
+			same.push(runs[run][heads[run]++]);
+			if (heads[run] === runs[run].length) {
+				const last = heap.pop()!;
+				if (heap.length) heap[0] = last;
+			}
+			siftDown(0);
+		}
+		merged.push(same.sort((a, b) => a.count - b.count || a.variance - b.variance).reduce(combineSharedMean));
+	}
+	return merged;
+}
 
-	// This check avoids division by zero if totalN is 0, though nA, nB should be >= 1 from context of use.
-	const ssBetween = (nA === 0 || nB === 0 || totalN === 0)
-		? 0
-		: (nA * nB * Math.pow(a.value - b.value, 2)) / totalN;
+/** Orders sets of moments by each of their fields, so that moments are combined in a canonical order */
+function compareMoments(a: MomentsJSON, b: MomentsJSON): number {
+	return a.count - b.count || a.sum - b.sum || a.mean - b.mean || a.m2 - b.m2 || a.m3 - b.m3 || a.m4 - b.m4;
+}
 
-	const totalDF = totalN - 1;
+/** Whether two sequences of centroids are exactly equal, value, variance and count */
+function sameCentroids(a: Iterable<Centroid>, b: Iterable<Centroid>): boolean {
+	const others = b[Symbol.iterator]();
+	for (const centroid of a) {
+		const other = others.next();
+		if (other.done || centroid.value !== other.value.value || centroid.variance !== other.value.variance || centroid.count !== other.value.count) {
+			return false;
+		}
+	}
+	return !!others.next().done;
+}
 
-	// Avoid division by zero if totalDF is 0 (e.g. totalN=1 implies totalDF=0)
-	return totalDF > 0 ? (ssA + ssB + ssBetween) / totalDF : 0;
+/** Returns the merged centroid, assuming a shared mean.
+ * Counts may be fractional; mass of 1 or less contributes no sum of squares, and a total of 1 or less has no variance.
+ */
+function combineSharedMean(centroidA: Centroid, centroidB: Centroid) {
+	const count = centroidA.count + centroidB.count;
+	const sumOfSquares = centroidA.variance * Math.max(0, centroidA.count - 1) + centroidB.variance * Math.max(0, centroidB.count - 1);
+	const variance = count > 1 ? sumOfSquares / (count - 1) : 0;	// Remove DOF
+	return { value: centroidA.value, variance, count };
 }
 
 // ---- Constants ----------------------------------------------------------------
-const SCORE_EPSILON = 1e-9;
-const DENSITY_EPSILON = 1e-12;
+// With an accuracy target, every pair is tried once the centroids have grown by this factor since the last such scan (see fitBudget)
+const FULL_FIT_GROWTH = 1.125;
+// Relative discrepancy allowed between a restored marker's starting rank and its centroid's, for rounding in ranks tracked incrementally
+const MARKER_RANK_TOLERANCE = 1e-9;
+// addMany inserts a batch in place, rather than rebuilding the indexes, if the centroids outnumber its distinct values by more than this (rebuilding costs about a third of an insertion per centroid)
+const IN_PLACE_BATCH_RATIO = 2;
+// Decayed mass below which a centroid is pruned, unless the decay gives its own threshold
+const DEFAULT_PRUNE_BELOW = 0.01;
+// Least number of values addMany takes from its buffer at a time, so small histograms still amortize each rebuild
+const MIN_BUFFER_CHUNK = 1024;
+
+// Binary encoding header and per-centroid flags (see serialize/deserialize)
+const ENCODING_MAGIC = 0x53;	// "S"
+const ENCODING_VERSION = 1;
+const CENTROID_ZERO_VARIANCE = 0x01;	// variance is 0 and omitted
+const CENTROID_INTEGER_DELTA = 0x02;	// value is stored as a varint delta from the prior centroid's value
+const CENTROID_FRACTIONAL_COUNT = 0x04;	// count is stored as a float64 rather than a varint
+
+// ---- Index construction -------------------------------------------------------
+
+/** The centroids ordered by value */
+function centroidIndex() {
+	return new BTree<number, CentroidEntry>((e: CentroidEntry) => e.value, (a: number, b: number) => a - b);
+}
+
+/** Pairs ordered by (loss ascending, value) */
+function lossIndex() {
+	return new BTree<Loss, Loss>((e: Loss) => e, (a: Loss, b: Loss) => a.loss === b.loss ? a.value - b.value : a.loss - b.loss);
+}
 
 // ---- Helpers for local metrics ------------------------------------------------
 
@@ -772,9 +2056,14 @@ function erf(x: number): number {
 	return sign * y;
 }
 
+/** Distance from a centroid's value to the extreme values inferred for it (see inferValueFromOffset) */
+function inferredSpread(centroid: Centroid): number {
+	return centroid.count > 1 ? Math.sqrt(centroid.variance) : 0;
+}
+
 // Linear interpolation of the value over 1-sigma standard deviation breadth
 function inferValueFromOffset(offset: number, centroid: Centroid): number {
-	if (centroid.variance === 0 || centroid.count === 1) {
+	if (centroid.variance === 0 || centroid.count <= 1) {
 		return centroid.value;
 	} else {
 		const standardDeviation = Math.sqrt(centroid.variance);
@@ -813,6 +2102,26 @@ function rankAtMean(entry: CentroidEntry): number {
 	return entry.variance === 0 ? entry.count : Math.floor(entry.count / 2);
 }
 
+/** Mean of the given centroids' mass at or below a value, treating each as a normal distribution (or a point mass if it has no variance) */
+function meanAtOrBelow(value: number, centroids: Centroid[]): number {
+	let mass = 0;
+	let valueMass = 0;
+	for (const centroid of centroids) {
+		if (centroid.variance === 0) {
+			if (centroid.value <= value) {
+				mass += centroid.count;
+				valueMass += centroid.value * centroid.count;
+			}
+		} else {
+			// Partial expectation of a normal: E[X; X <= x] = mean * CDF(x) - variance * PDF(x)
+			const cdf = normalCDF(value, centroid.value, centroid.variance);
+			mass += cdf * centroid.count;
+			valueMass += (centroid.value * cdf - centroid.variance * calculateDensity(value, centroid.value, centroid.variance)) * centroid.count;
+		}
+	}
+	return mass > 0 ? valueMass / mass : value;
+}
+
 function calculateDensity(value: number, mean: number, variance: number): number {
 	if (variance === 0) {
 		return value === mean ? 1 : 0;
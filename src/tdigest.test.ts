@@ -0,0 +1,140 @@
+import { expect } from 'chai';
+import { Sparstogram } from './sparstogram.js';
+import { fromTDigest, toTDigest } from './tdigest.js';
+
+// Builds a MergingDigest buffer the way the Java library's asBytes/asSmallBytes lays it out
+function javaDigest(small: boolean, min: number, max: number, compression: number, centroids: [mean: number, weight: number][]) {
+	const bytes = new Uint8Array(small ? 30 + centroids.length * 8 : 32 + centroids.length * 16);
+	const view = new DataView(bytes.buffer);
+	let offset = 0;
+	view.setInt32(offset, small ? 2 : 1); offset += 4;
+	view.setFloat64(offset, min); offset += 8;
+	view.setFloat64(offset, max); offset += 8;
+	if (small) {
+		view.setFloat32(offset, compression); offset += 4;
+		view.setInt16(offset, 2 * compression); offset += 2;
+		view.setInt16(offset, 5 * compression); offset += 2;
+		view.setInt16(offset, centroids.length); offset += 2;
+	} else {
+		view.setFloat64(offset, compression); offset += 8;
+		view.setInt32(offset, centroids.length); offset += 4;
+	}
+	for (const [mean, weight] of centroids) {
+		if (small) {
+			view.setFloat32(offset, weight); offset += 4;
+			view.setFloat32(offset, mean); offset += 4;
+		} else {
+			view.setFloat64(offset, weight); offset += 8;
+			view.setFloat64(offset, mean); offset += 8;
+		}
+	}
+	return bytes;
+}
+
+describe('t-digest interop', () => {
+	const centroids: [number, number][] = [[1, 1], [2.5, 3], [4, 10], [8, 2], [20, 1]];
+
+	describe('fromTDigest', () => {
+		it('decodes the verbose encoding', () => {
+			const h = fromTDigest(javaDigest(false, 1, 20, 100, centroids));
+			expect(h.count).to.equal(17);
+			expect([...h.ascending()].map(c => [c.value, c.count])).to.deep.equal(centroids);
+		});
+
+		it('decodes the small encoding', () => {
+			const h = fromTDigest(javaDigest(true, 1, 20, 100, centroids));
+			expect(h.count).to.equal(17);
+			expect([...h.ascending()].map(c => [c.value, c.count])).to.deep.equal(centroids);
+		});
+
+		it('synthesizes variance from neighbor spacing by default', () => {
+			const h = fromTDigest(javaDigest(false, 0, 20, 100, centroids));
+			const [first, second, third, fourth, last] = [...h.ascending()];
+			expect(first.variance).to.equal(0);	// single weight
+			expect(second.variance).to.be.closeTo(((2.5 + 4) / 2 - (1 + 2.5) / 2) ** 2 / 12, 1e-12);
+			expect(third.variance).to.be.closeTo(((4 + 8) / 2 - (2.5 + 4) / 2) ** 2 / 12, 1e-12);
+			expect(fourth.variance).to.be.closeTo(((8 + 20) / 2 - (4 + 8) / 2) ** 2 / 12, 1e-12);
+			expect(last.variance).to.equal(0);
+		});
+
+		it('uses min and max to bound the end centroids', () => {
+			const h = fromTDigest(javaDigest(false, 0, 12, 100, [[2, 4], [10, 4]]));
+			const [first, last] = [...h.ascending()];
+			expect(first.variance).to.be.closeTo((6 - 0) ** 2 / 12, 1e-12);
+			expect(last.variance).to.be.closeTo((12 - 6) ** 2 / 12, 1e-12);
+		});
+
+		it('can treat means as point masses', () => {
+			const h = fromTDigest(javaDigest(false, 1, 20, 100, centroids), { variance: 'zero' });
+			expect([...h.ascending()].every(c => c.variance === 0)).to.be.true;
+		});
+
+		it('applies maxCentroids and markers', () => {
+			const h = fromTDigest(javaDigest(false, 1, 20, 100, centroids), { maxCentroids: 3, markers: [0.5] });
+			expect(h.centroidCount).to.equal(3);
+			expect(h.count).to.equal(17);
+			expect(h.markerAt(0).rank).to.equal(9);
+		});
+
+		it('decodes an empty digest', () => {
+			const h = fromTDigest(javaDigest(false, Infinity, -Infinity, 100, []));
+			expect(h.count).to.equal(0);
+			expect(h.maxCentroids).to.equal(1);
+		});
+
+		it('rejects unknown encodings and truncated buffers', () => {
+			const bytes = javaDigest(false, 1, 20, 100, centroids);
+			new DataView(bytes.buffer).setInt32(0, 7);
+			expect(() => fromTDigest(bytes)).to.throw(/encoding 7/);
+			expect(() => fromTDigest(javaDigest(false, 1, 20, 100, centroids).subarray(0, 60))).to.throw(/centroid count/);
+			expect(() => fromTDigest(new Uint8Array([0, 0]))).to.throw(/end of data/);
+		});
+	});
+
+	describe('toTDigest', () => {
+		function source() {
+			const h = new Sparstogram(50);
+			for (let i = 0; i < 1000; i++) h.add(Math.sin(i) * 100);
+			return h;
+		}
+
+		it('round-trips means and weights through the verbose encoding', () => {
+			const h = source();
+			const back = fromTDigest(toTDigest(h), { variance: 'zero' });
+			expect([...back.ascending()].map(c => [c.value, c.count]))
+				.to.deep.equal([...h.ascending()].map(c => [c.value, c.count]));
+		});
+
+		it('writes the Java verbose layout', () => {
+			const h = new Sparstogram(10);
+			h.add(3);
+			h.add(5);
+			h.add(5);
+			const view = new DataView(toTDigest(h, { compression: 50 }).buffer);
+			expect(view.getInt32(0)).to.equal(1);
+			expect(view.getFloat64(4)).to.equal(3);	// min
+			expect(view.getFloat64(12)).to.equal(5);	// max
+			expect(view.getFloat64(20)).to.equal(50);	// compression
+			expect(view.getInt32(28)).to.equal(2);
+			expect([view.getFloat64(32), view.getFloat64(40), view.getFloat64(48), view.getFloat64(56)]).to.deep.equal([1, 3, 2, 5]);
+		});
+
+		it('round-trips through the small encoding at float32 precision', () => {
+			const h = source();
+			const bytes = toTDigest(h, { encoding: 'small' });
+			expect(new DataView(bytes.buffer).getInt32(0)).to.equal(2);
+			const back = fromTDigest(bytes);
+			expect(back.count).to.equal(h.count);
+			const original = [...h.ascending()];
+			[...back.ascending()].forEach((c, i) => expect(c.value).to.be.closeTo(original[i].value, 1e-4));
+		});
+
+		it('records min and max bounding all centroids', () => {
+			const h = source();
+			const view = new DataView(toTDigest(h).buffer);
+			const values = [...h.ascending()].map(c => c.value);
+			expect(view.getFloat64(4)).to.be.at.most(values[0]);
+			expect(view.getFloat64(12)).to.be.at.least(values[values.length - 1]);
+		});
+	});
+});
@@ -0,0 +1,126 @@
+import { Centroid, Sparstogram } from "./sparstogram.js";
+import { ByteReader, ByteWriter } from "./codec.js";
+
+/** Options for importing a t-digest */
+export interface TDigestImportOptions {
+	/** The maximum number of centroids of the resulting histogram (defaults to the digest's centroid count, so the import is lossless) */
+	maxCentroids?: number;
+	/** Optional quantile markers for the resulting histogram (see the {@link Sparstogram} constructor) */
+	markers?: number[];
+	/** How to synthesize centroid variance, which t-digest does not carry:
+	 * - "spacing" (default): each centroid with weight > 1 is treated as uniformly spread between the midpoints to its neighbors
+	 * 	(or to the digest's min/max at the ends), giving variance = width² / 12.  Single-weight centroids have variance 0.
+	 * - "zero": all centroids have variance 0, treating each mean as a point mass.
+	 */
+	variance?: "spacing" | "zero";
+}
+
+/** Options for exporting a histogram as a t-digest */
+export interface TDigestExportOptions {
+	/** "verbose" (default) writes float64 means and weights; "small" writes float32s and is limited to 32767 centroids */
+	encoding?: "verbose" | "small";
+	/** The t-digest compression parameter to record (defaults to max(100, centroidCount / 2), which leaves room for every centroid) */
+	compression?: number;
+}
+
+/** Decodes a t-digest MergingDigest byte buffer (as produced by the Java library's asBytes or asSmallBytes) into a histogram.
+ * Each t-digest mean and weight becomes a centroid value and count; variance is synthesized per {@link TDigestImportOptions.variance}.
+ * @throws {Error} If the buffer is not a recognized MergingDigest encoding, or is truncated
+ */
+export function fromTDigest(bytes: Uint8Array, options: TDigestImportOptions = {}): Sparstogram {
+	const reader = new ByteReader(bytes);
+	const encoding = reader.int32();
+	let min: number, max: number, count: number;
+	const means: number[] = [];
+	const weights: number[] = [];
+	if (encoding === VERBOSE_ENCODING) {
+		min = reader.float64();
+		max = reader.float64();
+		reader.float64();	// compression
+		count = reader.int32();
+		checkCount(count, reader.remaining, 16);
+		for (let i = 0; i < count; ++i) {
+			weights.push(reader.float64());
+			means.push(reader.float64());
+		}
+	} else if (encoding === SMALL_ENCODING) {
+		min = reader.float64();
+		max = reader.float64();
+		reader.float32();	// compression
+		reader.int16();	// centroid capacity
+		reader.int16();	// buffer size
+		count = reader.int16();
+		checkCount(count, reader.remaining, 8);
+		for (let i = 0; i < count; ++i) {
+			weights.push(reader.float32());
+			means.push(reader.float32());
+		}
+	} else {
+		throw new Error(`Unrecognized t-digest encoding ${encoding}`);
+	}
+
+	const histogram = new Sparstogram(Math.max(1, count), options.markers);
+	for (let i = 0; i < count; ++i) {
+		histogram.append({ value: means[i], count: weights[i], variance: options.variance === "zero" ? 0 : spacingVariance(i) });
+	}
+	if (options.maxCentroids !== undefined) {
+		histogram.maxCentroids = options.maxCentroids;
+	}
+	return histogram;
+
+	function spacingVariance(i: number): number {
+		if (weights[i] <= 1) return 0;
+		const lower = i > 0 ? (means[i - 1] + means[i]) / 2 : Number.isFinite(min) ? Math.min(min, means[i]) : means[i];
+		const upper = i < count - 1 ? (means[i] + means[i + 1]) / 2 : Number.isFinite(max) ? Math.max(max, means[i]) : means[i];
+		return (upper - lower) ** 2 / 12;
+	}
+}
+
+/** Encodes a histogram as a t-digest MergingDigest byte buffer, readable by the Java library's MergingDigest.fromBytes.
+ * Centroid values and counts become t-digest means and weights; variance is not represented.
+ * The digest's min and max are the histogram's observed range.
+ * @throws {Error} If the small encoding is requested for more than 32767 centroids
+ */
+export function toTDigest(histogram: Sparstogram, options: TDigestExportOptions = {}): Uint8Array {
+	const centroids: Centroid[] = [...histogram.ascending()];
+	const compression = options.compression ?? Math.max(100, Math.ceil(centroids.length / 2));
+	const writer = new ByteWriter();
+	if ((options.encoding ?? "verbose") === "verbose") {
+		writer.int32(VERBOSE_ENCODING);
+		writer.float64(histogram.min);
+		writer.float64(histogram.max);
+		writer.float64(compression);
+		writer.int32(centroids.length);
+		for (const centroid of centroids) {
+			writer.float64(centroid.count);
+			writer.float64(centroid.value);
+		}
+	} else {
+		if (centroids.length > SHORT_MAX) {
+			throw new Error(`The small t-digest encoding is limited to ${SHORT_MAX} centroids`);
+		}
+		writer.int32(SMALL_ENCODING);
+		writer.float64(histogram.min);
+		writer.float64(histogram.max);
+		writer.float32(compression);
+		writer.int16(Math.min(SHORT_MAX, Math.max(centroids.length, 2 * Math.ceil(compression))));
+		writer.int16(Math.min(SHORT_MAX, 5 * Math.ceil(compression)));
+		writer.int16(centroids.length);
+		for (const centroid of centroids) {
+			writer.float32(centroid.count);
+			writer.float32(centroid.value);
+		}
+	}
+	return writer.toBytes();
+}
+
+function checkCount(count: number, remaining: number, bytesPerCentroid: number) {
+	if (count < 0 || count * bytesPerCentroid > remaining) {
+		throw new Error(`Invalid t-digest centroid count ${count}`);
+	}
+}
+
+// MergingDigest encoding identifiers (com.tdunning.math.stats.MergingDigest.Encoding)
+const VERBOSE_ENCODING = 1;
+const SMALL_ENCODING = 2;
+const SHORT_MAX = 0x7fff;
@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import { Sparstogram } from './sparstogram.js';
+import { WindowedSparstogram } from './windowed.js';
+
+describe('Windowed histograms', () => {
+	it('covers the intervals within the window, expiring older ones', () => {
+		const w = new WindowedSparstogram(100, { interval: 10, intervals: 3 });
+		for (let t = 0; t < 60; t++) {
+			w.advanceTo(t);
+			w.add(t);
+		}
+		expect(w.windowStart).to.equal(30);
+		expect(w.count).to.equal(30);
+		expect(w.quantileAt(0).value).to.equal(30);
+		expect(w.quantileAt(1).value).to.equal(59);
+		expect(w.rankAt(44.5)).to.equal(15);
+		expect(w.countAt(40)).to.equal(1);
+		w.advanceTo(65);
+		expect(w.count).to.equal(20);
+		expect(w.quantileAt(0).value).to.equal(40);
+	});
+
+	it('matches a histogram of the values within the window', () => {
+		const w = new WindowedSparstogram(500, { interval: 100, intervals: 5, start: 1000 }, [0.5, 0.99]);
+		const values: number[] = [];
+		for (let t = 1000; t < 3000; t += 3) {
+			w.advanceTo(t);
+			const value = Math.round(Math.sin(t) * 50 + t / 20);
+			w.add(value);
+			values.push(value);
+		}
+		const exact = new Sparstogram(500, [0.5, 0.99]);
+		values.slice(values.length - Math.ceil((3000 - w.windowStart) / 3)).forEach(v => exact.add(v));
+		expect(w.count).to.equal(exact.count);
+		expect([...w.view.ascending()]).to.deep.equal([...exact.ascending()]);
+		expect(w.markerAt(1).value).to.equal(exact.markerAt(1).value);
+		expect(w.quantilesAt([0.1, 0.9])).to.deep.equal(exact.quantilesAt([0.1, 0.9]));
+		expect([...w.peaks()]).to.deep.equal([...exact.peaks()]);
+	});
+
+	it('keeps the cached view up to date, rebuilding it only when intervals rotate', () => {
+		const w = new WindowedSparstogram(50, { interval: 1, intervals: 4 });
+		w.addMany([1, 2, 3]);
+		const view = w.view;
+		w.add(4);
+		expect(w.view).to.equal(view);
+		expect(w.count).to.equal(4);
+		w.advanceTo(0.5);
+		expect(w.view).to.equal(view);
+		w.advanceTo(1);
+		expect(w.view).to.not.equal(view);
+		expect(w.count).to.equal(4);
+	});
+
+	it('empties when time passes the whole window', () => {
+		const w = new WindowedSparstogram(10, { interval: 5, intervals: 2 });
+		w.add(1);
+		w.advanceTo(7);
+		w.add(2);
+		w.advanceTo(1000);
+		expect(w.count).to.equal(0);
+		expect(w.windowStart).to.equal(1000);
+		w.add(3);
+		expect(w.quantileAt(0.5).value).to.equal(3);
+	});
+
+	it('validates the span and time', () => {
+		expect(() => new WindowedSparstogram(10, { interval: 0, intervals: 2 })).to.throw(/interval/);
+		expect(() => new WindowedSparstogram(10, { interval: 1, intervals: 1.5 })).to.throw(/intervals/);
+		expect(() => new WindowedSparstogram(10, { interval: 1, intervals: 2 }, undefined, { decay: { halfLife: 1 } })).to.throw(/decay/);
+		const w = new WindowedSparstogram(10, { interval: 1, intervals: 2, start: 5 });
+		expect(() => w.advanceTo(4)).to.throw(/Time/);
+	});
+});
@@ -0,0 +1,214 @@
+import { RingBuffer } from "./ring-buffer.js";
+import { Peak, Quantile, Sparstogram, SparstogramOptions } from "./sparstogram.js";
+import { MemoryPool } from "./memory.js";
+
+/** The span of a sliding window, as a number of fixed intervals of time */
+export interface WindowSpan {
+	/** The length of each interval, in the units of the times given to advanceTo (e.g. milliseconds, for Date.now()) */
+	interval: number;
+	/** The number of intervals in the window, including the current one */
+	intervals: number;
+	/** The time at which the first interval starts (default 0) */
+	start?: number;
+}
+
+interface Interval {
+	start: number;
+	histogram: Sparstogram;
+}
+
+/** A histogram over a sliding window of time, such as for "p99 over the last 5 minutes".
+ * Values are added to the current interval; as time advances, new intervals are opened and those older than the window expire,
+ * so the window covers from the start of the oldest interval to the present: between (intervals - 1) and intervals interval lengths.
+ * Queries are answered from a merged view of the window, which is cached, and kept up to date as values are added.
+ * When intervals rotate, the view is rebuilt from two partial merges with {@link Sparstogram.mergeFrom}, rather than from every interval:
+ * the older intervals' merges are kept as suffixes (each interval merged with those after it), and the newer intervals as one running merge,
+ * so expiring an interval drops a suffix, and the suffixes are recomputed from the newer intervals only once they run out.
+ */
+export class WindowedSparstogram {
+	private _intervals: RingBuffer<Interval>;
+	/** _suffixes[i] is the merge of the i-th oldest interval with the later intervals covered by the suffixes */
+	private _suffixes: Sparstogram[] = [];
+	/** The merge of the intervals after those covered by the suffixes, including the current one */
+	private _recent: Sparstogram;
+	private _view: Sparstogram | undefined;
+	private _interval: number;
+	private _capacity: number;
+	private _time: number;
+
+	/** @throws {Error} If the span's interval is not a positive finite number, its intervals is not a positive integer, or the options include a decay */
+	constructor(
+		/** The maximum number of centroids of each interval, and of the merged view (see {@link Sparstogram}) */
+		readonly maxCentroids: number,
+		/** The span of the window */
+		span: WindowSpan,
+		/** Optional quantiles to be maintained in the merged view (see {@link Sparstogram.markerAt}) */
+		readonly markers?: number[],
+		/** Options for each interval's histogram, and the merged view */
+		private readonly options: SparstogramOptions = {},
+	) {
+		if (!(Number.isFinite(span.interval) && span.interval > 0)) {
+			throw new Error("Window interval must be a positive finite number");
+		}
+		if (!(Number.isInteger(span.intervals) && span.intervals >= 1)) {
+			throw new Error("Window intervals must be a positive integer");
+		}
+		if (options.decay) {
+			throw new Error("A windowed histogram can't decay; its intervals expire instead");
+		}
+		this._interval = span.interval;
+		this._capacity = span.intervals;
+		this._time = span.start ?? 0;
+		this._intervals = new RingBuffer<Interval>(span.intervals);
+		this._intervals.push({ start: this._time, histogram: this.newHistogram() });
+		this._recent = this.newHistogram();
+	}
+
+	/** The current time (see {@link advanceTo}) */
+	get time(): number {
+		return this._time;
+	}
+
+	/** The start of the window: the start of its oldest interval */
+	get windowStart(): number {
+		return this._intervals.at(0).start;
+	}
+
+	/** The merged view of the window, built if there were changes since the last query.
+	 * The view is shared by later queries, and must not be modified.
+	 */
+	get view(): Sparstogram {
+		if (!this._view) {
+			this._view = new Sparstogram(this.maxCentroids, this.markers ? [...this.markers] : undefined, this.options);
+			if (this._suffixes.length) {
+				this._view.mergeFrom(this._suffixes[0]);
+			}
+			this._view.mergeFrom(this._recent);
+		}
+		return this._view;
+	}
+
+	/** The total count within the window */
+	get count(): number {
+		return this.view.count;
+	}
+
+	/** Adds a value to the current interval
+	 * @param value The value to add
+	 * @param weight The mass of the observation (default 1)
+	 * @throws {Error} If the value is not finite, or the weight is not a positive finite number
+	 */
+	add(value: number, weight: number = 1) {
+		this._intervals.at(-1).histogram.add(value, weight);
+		this._recent.add(value, weight);
+		this._view?.add(value, weight);
+	}
+
+	/** Adds many values to the current interval (see {@link Sparstogram.addMany})
+	 * @throws {Error} If any value is not finite, in which case none are added
+	 */
+	addMany(values: ArrayLike<number>) {
+		this._intervals.at(-1).histogram.addMany(values);
+		this._recent.addMany(values);
+		this._view?.addMany(values);
+	}
+
+	/** Advances the window's time, opening an interval for each interval length passed, and expiring those that fall out of the window
+	 * @param time The new time, in the units of the interval (e.g. Date.now())
+	 * @throws {Error} If the time is not finite, or is before the current {@link time}
+	 */
+	advanceTo(time: number) {
+		if (!(Number.isFinite(time) && time >= this._time)) {
+			throw new Error("Time must be finite, and not before the window's time");
+		}
+		this._time = time;
+		const current = this._intervals.at(-1).start;
+		const elapsed = Math.floor((time - current) / this._interval);
+		if (elapsed >= this._capacity) {	// the whole window has expired
+			while (this._intervals.length) this.discard(this._intervals.shift().histogram);
+			this._suffixes.forEach(suffix => this.discard(suffix));
+			this._suffixes = [];
+			this.discard(this._recent);
+			this._recent = this.newHistogram();
+			this._intervals.push({ start: current + elapsed * this._interval, histogram: this.newHistogram() });
+			this.invalidate();
+			return;
+		}
+		for (let i = 1; i <= elapsed; ++i) {
+			if (this._intervals.length === this._capacity) {
+				this.expireOldest();
+			}
+			this._intervals.push({ start: current + i * this._interval, histogram: this.newHistogram() });
+		}
+		if (elapsed > 0) {
+			this.invalidate();
+		}
+	}
+
+	/** The value at the given quantile within the window (see {@link Sparstogram.quantileAt}) */
+	quantileAt(quantile: number): Quantile {
+		return this.view.quantileAt(quantile);
+	}
+
+	/** The values at the given quantiles within the window (see {@link Sparstogram.quantilesAt}) */
+	quantilesAt(quantiles: number[]): Quantile[] {
+		return this.view.quantilesAt(quantiles);
+	}
+
+	/** The rank of a value within the window (see {@link Sparstogram.rankAt}) */
+	rankAt(value: number): number {
+		return this.view.rankAt(value);
+	}
+
+	/** The interpolated count at a value within the window (see {@link Sparstogram.countAt}) */
+	countAt(value: number): number {
+		return this.view.countAt(value);
+	}
+
+	/** The marker at the given index within the window (see {@link Sparstogram.markerAt}) */
+	markerAt(index: number): Quantile {
+		return this.view.markerAt(index);
+	}
+
+	/** The peaks within the window (see {@link Sparstogram.peaks}) */
+	peaks(smoothing?: number): IterableIterator<Peak> {
+		return this.view.peaks(smoothing);
+	}
+
+	/** Drops the oldest interval, first computing the suffix merges from the intervals so far if none remain */
+	private expireOldest() {
+		if (!this._suffixes.length) {
+			const suffixes = new Array<Sparstogram>(this._intervals.length);
+			for (let i = this._intervals.length - 1; i >= 0; --i) {
+				suffixes[i] = this.newHistogram();
+				suffixes[i].mergeFrom(this._intervals.at(i).histogram);
+				if (i + 1 < suffixes.length) {
+					suffixes[i].mergeFrom(suffixes[i + 1]);
+				}
+			}
+			this._suffixes = suffixes;
+			this.discard(this._recent);
+			this._recent = this.newHistogram();
+		}
+		this.discard(this._suffixes.shift()!);
+		this.discard(this._intervals.shift().histogram);
+	}
+
+	private newHistogram(): Sparstogram {
+		return new Sparstogram(this.maxCentroids, undefined, this.options);
+	}
+
+	/** Returns a dropped histogram's share of a memory pool, if there is one */
+	private discard(histogram: Sparstogram) {
+		if (this.options.memoryBudget instanceof MemoryPool) {
+			this.options.memoryBudget.leave(histogram);
+		}
+	}
+
+	private invalidate() {
+		if (this._view) {
+			this.discard(this._view);
+			this._view = undefined;
+		}
+	}
+}